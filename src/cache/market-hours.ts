@@ -0,0 +1,100 @@
+/**
+ * Market Hours
+ *
+ * NSE/BSE trading calendar used to decide how long live data stays fresh.
+ * Prices move from pre-open (09:00 IST) until the post-close session ends
+ * (16:00 IST) on weekdays that aren't exchange holidays. Holidays come from
+ * nse.holidays() and are refreshed daily; if they can't be fetched, only
+ * weekends are treated as closed.
+ */
+
+import type { NSEClient } from 'nse-bse-api';
+import { tryParseDate } from '../utils/dates.js';
+import { logger } from '../utils/logger.js';
+
+const IST_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const SESSION_START_MINUTES = 9 * 60;
+const SESSION_END_MINUTES = 16 * 60;
+const HOLIDAYS_TTL_MS = DAY_MS;
+const RETRY_AFTER_FAILURE_MS = 60 * 1000;
+// Longest run of closed days to look through for the next session
+const MAX_CLOSED_DAYS = 15;
+
+export interface MarketSession {
+  open: boolean;
+  // While open: when the session ends. While closed: when the next one starts.
+  until: number;
+}
+
+export class MarketCalendar {
+  // Holiday dates as YYYY-MM-DD
+  private holidays = new Set<string>();
+  private expiresAt = 0;
+  private inFlight?: Promise<void>;
+
+  constructor(private nse: NSEClient) {}
+
+  async session(now = Date.now()): Promise<MarketSession> {
+    await this.refreshHolidays();
+
+    const ist = now + IST_OFFSET_MS;
+    const dayStart = ist - (ist % DAY_MS);
+    const minutes = Math.floor((ist - dayStart) / 60000);
+    const toUtc = (istDayStart: number, atMinutes: number) => istDayStart + atMinutes * 60000 - IST_OFFSET_MS;
+
+    if (this.isTradingDay(dayStart)) {
+      if (minutes >= SESSION_START_MINUTES && minutes < SESSION_END_MINUTES) {
+        return { open: true, until: toUtc(dayStart, SESSION_END_MINUTES) };
+      }
+      if (minutes < SESSION_START_MINUTES) {
+        return { open: false, until: toUtc(dayStart, SESSION_START_MINUTES) };
+      }
+    }
+
+    for (let day = 1; day <= MAX_CLOSED_DAYS; day++) {
+      const next = dayStart + day * DAY_MS;
+      if (this.isTradingDay(next)) {
+        return { open: false, until: toUtc(next, SESSION_START_MINUTES) };
+      }
+    }
+    return { open: false, until: now + DAY_MS };
+  }
+
+  private isTradingDay(istDayStart: number): boolean {
+    const date = new Date(istDayStart);
+    const weekday = date.getUTCDay();
+    return weekday !== 0 && weekday !== 6 && !this.holidays.has(date.toISOString().slice(0, 10));
+  }
+
+  private refreshHolidays(): Promise<void> {
+    if (Date.now() < this.expiresAt) {
+      return Promise.resolve();
+    }
+    if (!this.inFlight) {
+      this.inFlight = this.loadHolidays().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async loadHolidays(): Promise<void> {
+    try {
+      const response = await this.nse.holidays('trading');
+      // Capital market segment: [{ tradingDate: '26-Jan-2025', ... }]
+      const rows: any[] = Array.isArray(response?.CM) ? response.CM : [];
+      const dates = rows
+        .map(row => tryParseDate(String(row.tradingDate ?? '')))
+        .filter((date): date is Date => date !== null)
+        .map(date => date.toISOString().slice(0, 10));
+
+      this.holidays = new Set(dates);
+      this.expiresAt = Date.now() + HOLIDAYS_TTL_MS;
+      logger.debug('Market holidays refreshed', { holidays: this.holidays.size });
+    } catch (error) {
+      this.expiresAt = Date.now() + RETRY_AFTER_FAILURE_MS;
+      logger.warn('Market holidays refresh failed, treating only weekends as closed', { error });
+    }
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Response Cache
+ *
+ * Caches raw tool results (before response limiting, so `fields` and
+ * `max_items` variations share an entry) under a per-tool policy:
+ * - 'static': reference data that changes at most daily, kept for a day
+ * - 'live': quotes and market snapshots, kept for a few seconds while the
+ *   market is open and until the next session opens once it has closed
+ *
+ * Entries live in an in-memory LRU, optionally backed by a file store so
+ * they survive restarts. Errors are never cached.
+ */
+
+import { FileStore, MemoryStore, CacheEntry } from './stores.js';
+import type { MarketCalendar } from './market-hours.js';
+import { responseCache } from '../utils/metrics.js';
+import { stableStringify } from '../utils/logger.js';
+
+export type CachePolicy = 'static' | 'live';
+
+export interface ResponseCacheOptions {
+  maxEntries: number;
+  staticTtlSeconds: number;
+  liveTtlSeconds: number;
+  // File-backed store directory; memory only when absent
+  directory?: string;
+}
+
+/**
+ * Reported in the result's _meta.cache
+ */
+export interface CacheStatus {
+  hit: boolean;
+  policy: CachePolicy;
+  storedAt: string;
+  expiresAt: string;
+}
+
+export class ResponseCache {
+  private memory: MemoryStore;
+  private files?: FileStore;
+
+  constructor(private calendar: MarketCalendar, private options: ResponseCacheOptions) {
+    this.memory = new MemoryStore(options.maxEntries);
+    if (options.directory) {
+      this.files = new FileStore(options.directory);
+    }
+  }
+
+  /**
+   * Cached result for the call, or the loaded one (stored for next time)
+   */
+  async getOrLoad(
+    tool: string,
+    args: Record<string, any>,
+    policy: CachePolicy,
+    load: () => Promise<unknown>
+  ): Promise<{ value: unknown; status: CacheStatus }> {
+    const key = `${tool}:${stableStringify(args)}`;
+
+    let entry = this.memory.get(key);
+    if (!entry && this.files) {
+      entry = await this.files.get(key);
+      if (entry) {
+        this.memory.set(key, entry);
+      }
+    }
+
+    if (entry) {
+      responseCache.inc({ tool, result: 'hit' });
+      return { value: entry.value, status: statusOf(entry, policy, true) };
+    }
+
+    responseCache.inc({ tool, result: 'miss' });
+    const value = await load();
+    const storedAt = Date.now();
+    entry = { value, storedAt, expiresAt: await this.expiryFor(policy, storedAt) };
+
+    this.memory.set(key, entry);
+    await this.files?.set(key, entry);
+    return { value, status: statusOf(entry, policy, false) };
+  }
+
+  private async expiryFor(policy: CachePolicy, now: number): Promise<number> {
+    if (policy === 'static') {
+      return now + this.options.staticTtlSeconds * 1000;
+    }
+
+    const session = await this.calendar.session(now);
+    return session.open ? now + this.options.liveTtlSeconds * 1000 : session.until;
+  }
+}
+
+function statusOf(entry: CacheEntry, policy: CachePolicy, hit: boolean): CacheStatus {
+  return {
+    hit,
+    policy,
+    storedAt: new Date(entry.storedAt).toISOString(),
+    expiresAt: new Date(entry.expiresAt).toISOString(),
+  };
+}
@@ -0,0 +1,102 @@
+/**
+ * Response Cache Stores
+ *
+ * In-memory LRU (always on) and an optional file-backed store that keeps
+ * entries across restarts. Both hold JSON-serialisable tool results with
+ * their expiry time.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { logger } from '../utils/logger.js';
+
+export interface CacheEntry {
+  value: unknown;
+  storedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Least-recently-used map: a Map keeps insertion order, so re-inserting on
+ * every read moves an entry to the end and the first key is the oldest.
+ */
+export class MemoryStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private maxEntries: number) {}
+
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  set(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+/**
+ * One JSON file per entry, named by a hash of the key.
+ * Read and write failures are logged and treated as misses.
+ */
+export class FileStore {
+  constructor(private directory: string) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const file = this.fileFor(key);
+    let entry: CacheEntry & { key: string };
+    try {
+      entry = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Could not read cache file', { file, error });
+      }
+      return undefined;
+    }
+
+    // Guard against hash collisions and expire stale files
+    if (entry.key !== key || entry.expiresAt <= Date.now()) {
+      await fs.promises.rm(file, { force: true });
+      return undefined;
+    }
+    return { value: entry.value, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    const file = this.fileFor(key);
+    // Write then rename so readers never see a partial file
+    const temp = `${file}.${process.pid}.tmp`;
+    try {
+      await fs.promises.writeFile(temp, JSON.stringify({ key, ...entry }));
+      await fs.promises.rename(temp, file);
+    } catch (error) {
+      logger.warn('Could not write cache file', { file, error });
+      await fs.promises.rm(temp, { force: true });
+    }
+  }
+}
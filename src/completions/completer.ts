@@ -0,0 +1,104 @@
+/**
+ * Argument Completion
+ *
+ * Answers completion/complete for prompt arguments and resource template
+ * variables. Symbols, indices, scrip codes and expiries come from the cached
+ * symbol master; resource variables come from the files on disk.
+ */
+
+import type { CompleteRequest, CompleteResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolAvailability } from '../tools/registry.js';
+import { promptCompletionSource } from '../prompts/workflows.js';
+import { resourceArgumentValues } from '../resources/downloads.js';
+import { SymbolMaster } from './symbol-master.js';
+
+export type CompletionSource = 'nse-index' | 'nse-fno-symbol' | 'bse-scripcode' | 'option-expiry';
+
+// MCP allows at most 100 values per completion response
+const MAX_VALUES = 100;
+
+/**
+ * Case-insensitive match, prefix matches first
+ */
+function matchValues(candidates: string[], typed: string): string[] {
+  const needle = typed.trim().toLowerCase();
+  if (!needle) {
+    return candidates;
+  }
+
+  const prefix: string[] = [];
+  const contains: string[] = [];
+  for (const candidate of candidates) {
+    const lower = candidate.toLowerCase();
+    if (lower.startsWith(needle)) {
+      prefix.push(candidate);
+    } else if (lower.includes(needle)) {
+      contains.push(candidate);
+    }
+  }
+  return [...prefix, ...contains];
+}
+
+async function sourceValues(
+  master: SymbolMaster,
+  source: CompletionSource,
+  typed: string,
+  context: Record<string, string>
+): Promise<string[]> {
+  switch (source) {
+    case 'nse-index':
+      return matchValues(await master.nseIndices(), typed);
+    case 'nse-fno-symbol':
+      return matchValues(await master.nseFnoSymbols(), typed);
+    case 'bse-scripcode': {
+      // Match on code, ticker or company name, but always suggest the code
+      const needle = typed.trim().toLowerCase();
+      const scrips = await master.bseScrips();
+      const byCode = scrips.filter(scrip => scrip.scripcode.startsWith(needle));
+      const byName = scrips.filter(
+        scrip =>
+          !scrip.scripcode.startsWith(needle) &&
+          (scrip.id.toLowerCase().startsWith(needle) || scrip.name.toLowerCase().includes(needle))
+      );
+      return [...byCode, ...byName].map(scrip => scrip.scripcode);
+    }
+    case 'option-expiry': {
+      // Expiries depend on the symbol chosen so far
+      const symbol = context.symbol?.trim();
+      if (!symbol) {
+        return [];
+      }
+      const fnoSymbols = await master.nseFnoSymbols();
+      if (fnoSymbols.length > 0 && !fnoSymbols.includes(symbol.toUpperCase())) {
+        return [];
+      }
+      return matchValues(await master.optionExpiries(symbol), typed);
+    }
+  }
+}
+
+export async function completeArgument(
+  params: CompleteRequest['params'],
+  master: SymbolMaster,
+  isAvailable: ToolAvailability
+): Promise<CompleteResult> {
+  const { ref, argument } = params;
+  let values: string[] = [];
+
+  if (ref.type === 'ref/prompt') {
+    const source = promptCompletionSource(ref.name, argument.name, isAvailable);
+    if (source) {
+      values = await sourceValues(master, source, argument.value, params.context?.arguments || {});
+    }
+  } else if (ref.type === 'ref/resource') {
+    values = matchValues(resourceArgumentValues(ref.uri, argument.name, isAvailable), argument.value);
+  }
+
+  return {
+    completion: {
+      values: values.slice(0, MAX_VALUES),
+      total: values.length,
+      hasMore: values.length > MAX_VALUES,
+    },
+  };
+}
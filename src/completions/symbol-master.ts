@@ -0,0 +1,134 @@
+/**
+ * Symbol Master
+ *
+ * Cached reference lists used for argument completion:
+ * - NSE indices (nse.listIndices)
+ * - BSE securities (bse.listSecurities)
+ * - NSE F&O symbols (nse.fnoLots)
+ * - option expiries per symbol (nse.getExpiryDatesV3)
+ *
+ * Lists are fetched on first use and refreshed after they expire. A failed
+ * fetch keeps serving the previous list (or nothing) and is retried after a
+ * short back-off, so completion never blocks on a struggling exchange.
+ */
+
+import type { NSEClient, BSE } from 'nse-bse-api';
+import { logger } from '../utils/logger.js';
+
+const MASTER_TTL_MS = 12 * 60 * 60 * 1000;
+const EXPIRY_TTL_MS = 60 * 60 * 1000;
+const RETRY_AFTER_FAILURE_MS = 60 * 1000;
+const MAX_EXPIRY_SYMBOLS = 500;
+
+export interface BseScrip {
+  scripcode: string;
+  // Exchange ticker, e.g. RELIANCE
+  id: string;
+  name: string;
+}
+
+class CachedList<T> {
+  private value: T[] = [];
+  private expiresAt = 0;
+  private inFlight?: Promise<T[]>;
+
+  constructor(
+    private label: string,
+    private ttlMs: number,
+    private load: () => Promise<T[]>
+  ) {}
+
+  async get(): Promise<T[]> {
+    if (Date.now() < this.expiresAt) {
+      return this.value;
+    }
+
+    // Concurrent completion requests share one fetch
+    if (!this.inFlight) {
+      this.inFlight = this.refresh().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async refresh(): Promise<T[]> {
+    try {
+      this.value = await this.load();
+      this.expiresAt = Date.now() + this.ttlMs;
+      logger.debug('Symbol master refreshed', { list: this.label, entries: this.value.length });
+    } catch (error: any) {
+      this.expiresAt = Date.now() + RETRY_AFTER_FAILURE_MS;
+      logger.warn('Symbol master refresh failed', { list: this.label, error });
+    }
+    return this.value;
+  }
+}
+
+function rowsOf(response: any): any[] {
+  if (Array.isArray(response)) return response;
+  if (Array.isArray(response?.data)) return response.data;
+  if (Array.isArray(response?.Table)) return response.Table;
+  return [];
+}
+
+function unique(values: Array<string | undefined>): string[] {
+  return [...new Set(values.filter((value): value is string => !!value?.trim()).map(value => value.trim()))];
+}
+
+export class SymbolMaster {
+  private indices: CachedList<string>;
+  private scrips: CachedList<BseScrip>;
+  private fnoSymbols: CachedList<string>;
+  private expiries = new Map<string, CachedList<string>>();
+
+  constructor(private nse: NSEClient, bse: BSE) {
+    this.indices = new CachedList('nse-indices', MASTER_TTL_MS, async () =>
+      unique(rowsOf(await nse.listIndices()).map(row => row.index ?? row.indexSymbol)).sort()
+    );
+
+    // Empty group lists active equity scrips from every group
+    this.scrips = new CachedList('bse-securities', MASTER_TTL_MS, async () =>
+      rowsOf(await bse.listSecurities({ group: '', status: 'Active' }))
+        .map(row => ({
+          scripcode: String(row.SCRIP_CD ?? row.scripcode ?? '').trim(),
+          id: String(row.scrip_id ?? row.symbol ?? '').trim(),
+          name: String(row.Scrip_Name ?? row.Issuer_Name ?? row.companyname ?? '').trim(),
+        }))
+        .filter(scrip => scrip.scripcode)
+    );
+
+    this.fnoSymbols = new CachedList('nse-fno-symbols', MASTER_TTL_MS, async () =>
+      Object.keys(await nse.fnoLots()).sort()
+    );
+  }
+
+  nseIndices(): Promise<string[]> {
+    return this.indices.get();
+  }
+
+  bseScrips(): Promise<BseScrip[]> {
+    return this.scrips.get();
+  }
+
+  nseFnoSymbols(): Promise<string[]> {
+    return this.fnoSymbols.get();
+  }
+
+  /**
+   * Option expiries (DD-Mon-YYYY) for a symbol
+   */
+  optionExpiries(symbol: string): Promise<string[]> {
+    const key = symbol.trim().toUpperCase();
+    let list = this.expiries.get(key);
+    if (!list) {
+      // Drop the oldest symbol so the cache can't grow without bound
+      if (this.expiries.size >= MAX_EXPIRY_SYMBOLS) {
+        this.expiries.delete(this.expiries.keys().next().value!);
+      }
+      list = new CachedList(`nse-expiries:${key}`, EXPIRY_TTL_MS, () => this.nse.getExpiryDatesV3(key));
+      this.expiries.set(key, list);
+    }
+    return list.get();
+  }
+}
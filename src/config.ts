@@ -0,0 +1,479 @@
+/**
+ * Server Configuration
+ *
+ * Single typed configuration loaded once at startup from (in order of
+ * precedence): environment variables, a JSON/YAML config file, defaults.
+ *
+ * The config file is taken from `--config <path>`, MCP_CONFIG, or the first
+ * of nse-bse-mcp.config.{json,yaml,yml} found in the working directory.
+ *
+ * Invalid values stop the server with a message naming each bad setting.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import YAML from 'yaml';
+
+export const TOOL_GROUPS = ['nse', 'bse', 'document', 'meta'] as const;
+export type ToolGroup = (typeof TOOL_GROUPS)[number];
+
+export const TOOL_CATEGORIES = [
+  'market-data',
+  'historical',
+  'options',
+  'corporate',
+  'ipo',
+  'market-activity',
+  'lists',
+  'lookup',
+  'metadata',
+  'downloads',
+  'documents',
+  'meta',
+] as const;
+export type ToolCategory = (typeof TOOL_CATEGORIES)[number];
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type ConfigLogLevel = (typeof LOG_LEVELS)[number];
+
+// stdio transport (--stdio or MCP_TRANSPORT=stdio); stdout then carries the protocol stream
+export const STDIO_TRANSPORT = process.argv.includes('--stdio') || process.env.MCP_TRANSPORT === 'stdio';
+
+export const UPSTREAM_MODES = ['live', 'record', 'replay'] as const;
+export type UpstreamMode = (typeof UPSTREAM_MODES)[number];
+
+export interface AppConfig {
+  server: {
+    port: number;
+    host: string;
+    corsOrigins: string[];
+    stateful: boolean;
+    sessionTimeoutSeconds: number;
+  };
+  downloads: {
+    directory: string;
+    documentsDirectory: string;
+    maxDocumentSizeMb: number;
+  };
+  responses: {
+    maxWords: number;
+  };
+  timeouts: {
+    nseMs: number;
+    bseMs: number;
+    documentDownloadMs: number;
+  };
+  tools: {
+    enabledGroups: ToolGroup[];
+    // Categories left out of enabled groups, e.g. options, ipo, downloads
+    disabledCategories: ToolCategory[];
+    // Tool names or prefix patterns ending in '*'; an empty allow list allows every tool
+    allow: string[];
+    deny: string[];
+    // Advertise only the first sentence of each tool description
+    shortDescriptions: boolean;
+    // List only search_tools and call_tool instead of every tool
+    discoveryMode: boolean;
+    // batch_call limits
+    batchMaxItems: number;
+    batchConcurrency: number;
+  };
+  rateLimits: {
+    clientPerMinute: number;
+    nsePerMinute: number;
+    bsePerMinute: number;
+  };
+  upstream: {
+    // live: call the exchanges; record: call them and save fixtures; replay: serve fixtures only
+    mode: UpstreamMode;
+    fixturesDirectory: string;
+    // Retries after a transient failure, with exponential backoff and jitter
+    retries: number;
+    retryBaseDelayMs: number;
+    // Consecutive failures that open an exchange's circuit breaker, and how long it stays open
+    breakerFailureThreshold: number;
+    breakerCooldownSeconds: number;
+  };
+  logging: {
+    level: ConfigLogLevel;
+  };
+  auth: {
+    keysFile?: string;
+  };
+  cache: {
+    enabled: boolean;
+    maxEntries: number;
+    staticTtlSeconds: number;
+    liveTtlSeconds: number;
+    // File-backed store; memory only when not set
+    directory?: string;
+  };
+}
+
+const DEFAULTS: AppConfig = {
+  server: {
+    port: 3000,
+    host: '0.0.0.0',
+    corsOrigins: ['*'],
+    stateful: false,
+    sessionTimeoutSeconds: 1800,
+  },
+  downloads: {
+    directory: './downloads',
+    // Derived from downloads.directory when not set explicitly
+    documentsDirectory: '',
+    maxDocumentSizeMb: 50,
+  },
+  responses: {
+    maxWords: 3500,
+  },
+  timeouts: {
+    nseMs: 15000,
+    bseMs: 10000,
+    documentDownloadMs: 60000,
+  },
+  tools: {
+    enabledGroups: [...TOOL_GROUPS],
+    disabledCategories: [],
+    allow: [],
+    deny: [],
+    shortDescriptions: false,
+    discoveryMode: false,
+    batchMaxItems: 20,
+    batchConcurrency: 4,
+  },
+  rateLimits: {
+    clientPerMinute: 120,
+    nsePerMinute: 60,
+    bsePerMinute: 60,
+  },
+  upstream: {
+    mode: 'live',
+    fixturesDirectory: './fixtures',
+    retries: 2,
+    retryBaseDelayMs: 500,
+    breakerFailureThreshold: 5,
+    breakerCooldownSeconds: 30,
+  },
+  logging: {
+    level: 'info',
+  },
+  auth: {},
+  cache: {
+    enabled: true,
+    maxEntries: 1000,
+    staticTtlSeconds: 86400,
+    liveTtlSeconds: 15,
+  },
+};
+
+type EnvKind = 'string' | 'number' | 'boolean' | 'list';
+
+// Environment variable -> config path
+const ENV_OVERRIDES: Array<[string, string, EnvKind]> = [
+  ['PORT', 'server.port', 'number'],
+  ['HOST', 'server.host', 'string'],
+  ['CORS_ORIGIN', 'server.corsOrigins', 'list'],
+  ['MCP_STATEFUL', 'server.stateful', 'boolean'],
+  ['MCP_SESSION_TIMEOUT', 'server.sessionTimeoutSeconds', 'number'],
+  ['DOWNLOAD_DIR', 'downloads.directory', 'string'],
+  ['DOCUMENTS_DIR', 'downloads.documentsDirectory', 'string'],
+  ['MAX_DOCUMENT_SIZE_MB', 'downloads.maxDocumentSizeMb', 'number'],
+  ['MAX_RESPONSE_WORDS', 'responses.maxWords', 'number'],
+  ['NSE_TIMEOUT_MS', 'timeouts.nseMs', 'number'],
+  ['BSE_TIMEOUT_MS', 'timeouts.bseMs', 'number'],
+  ['DOCUMENT_DOWNLOAD_TIMEOUT_MS', 'timeouts.documentDownloadMs', 'number'],
+  ['ENABLED_TOOL_GROUPS', 'tools.enabledGroups', 'list'],
+  ['DISABLED_TOOL_CATEGORIES', 'tools.disabledCategories', 'list'],
+  ['ALLOWED_TOOLS', 'tools.allow', 'list'],
+  ['DENIED_TOOLS', 'tools.deny', 'list'],
+  ['SHORT_TOOL_DESCRIPTIONS', 'tools.shortDescriptions', 'boolean'],
+  ['TOOL_DISCOVERY_MODE', 'tools.discoveryMode', 'boolean'],
+  ['BATCH_MAX_ITEMS', 'tools.batchMaxItems', 'number'],
+  ['BATCH_CONCURRENCY', 'tools.batchConcurrency', 'number'],
+  ['MCP_CLIENT_RATE_LIMIT', 'rateLimits.clientPerMinute', 'number'],
+  ['NSE_RATE_LIMIT', 'rateLimits.nsePerMinute', 'number'],
+  ['BSE_RATE_LIMIT', 'rateLimits.bsePerMinute', 'number'],
+  ['UPSTREAM_MODE', 'upstream.mode', 'string'],
+  ['UPSTREAM_FIXTURES_DIR', 'upstream.fixturesDirectory', 'string'],
+  ['UPSTREAM_RETRIES', 'upstream.retries', 'number'],
+  ['UPSTREAM_RETRY_BASE_DELAY_MS', 'upstream.retryBaseDelayMs', 'number'],
+  ['UPSTREAM_BREAKER_THRESHOLD', 'upstream.breakerFailureThreshold', 'number'],
+  ['UPSTREAM_BREAKER_COOLDOWN_SECONDS', 'upstream.breakerCooldownSeconds', 'number'],
+  ['LOG_LEVEL', 'logging.level', 'string'],
+  ['MCP_AUTH_KEYS_FILE', 'auth.keysFile', 'string'],
+  ['CACHE_ENABLED', 'cache.enabled', 'boolean'],
+  ['CACHE_MAX_ENTRIES', 'cache.maxEntries', 'number'],
+  ['CACHE_STATIC_TTL_SECONDS', 'cache.staticTtlSeconds', 'number'],
+  ['CACHE_LIVE_TTL_SECONDS', 'cache.liveTtlSeconds', 'number'],
+  ['CACHE_DIR', 'cache.directory', 'string'],
+];
+
+// Optional settings, absent from the defaults
+const OPTIONAL_SETTINGS = new Set(['auth.keysFile', 'cache.directory']);
+
+const DEFAULT_CONFIG_FILES = [
+  'nse-bse-mcp.config.json',
+  'nse-bse-mcp.config.yaml',
+  'nse-bse-mcp.config.yml',
+];
+
+export class ConfigError extends Error {
+  constructor(public readonly problems: string[]) {
+    super(`Invalid configuration:\n${problems.map(problem => `  - ${problem}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Find the config file path, if any
+ */
+function resolveConfigPath(argv: string[], env: NodeJS.ProcessEnv): string | undefined {
+  const flagIndex = argv.indexOf('--config');
+  if (flagIndex !== -1) {
+    const value = argv[flagIndex + 1];
+    if (!value) {
+      throw new ConfigError(['--config requires a file path']);
+    }
+    return value;
+  }
+
+  if (env.MCP_CONFIG) {
+    return env.MCP_CONFIG;
+  }
+
+  return DEFAULT_CONFIG_FILES.find(file => fs.existsSync(file));
+}
+
+function readConfigFile(filePath: string): Record<string, any> {
+  let text: string;
+  try {
+    text = fs.readFileSync(filePath, 'utf-8');
+  } catch (error: any) {
+    throw new ConfigError([`Cannot read config file ${filePath}: ${error.message}`]);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = /\.ya?ml$/i.test(filePath) ? YAML.parse(text) : JSON.parse(text);
+  } catch (error: any) {
+    throw new ConfigError([`Cannot parse config file ${filePath}: ${error.message}`]);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError([`Config file ${filePath} must contain an object at the top level`]);
+  }
+  return parsed;
+}
+
+/**
+ * Merge file values into defaults, reporting keys that don't exist
+ */
+function mergeInto(target: Record<string, any>, source: Record<string, any>, prefix: string, problems: string[]) {
+  for (const [key, value] of Object.entries(source)) {
+    const keyPath = prefix ? `${prefix}.${key}` : key;
+    if (!(key in target)) {
+      if (!OPTIONAL_SETTINGS.has(keyPath)) {
+        problems.push(`Unknown setting "${keyPath}"`);
+        continue;
+      }
+    }
+
+    if (isPlainObject(target[key])) {
+      if (!isPlainObject(value)) {
+        problems.push(`"${keyPath}" must be an object`);
+        continue;
+      }
+      mergeInto(target[key], value, keyPath, problems);
+    } else {
+      target[key] = value;
+    }
+  }
+}
+
+function setPath(target: Record<string, any>, keyPath: string, value: unknown) {
+  const keys = keyPath.split('.');
+  let node = target;
+  for (const key of keys.slice(0, -1)) {
+    node = node[key];
+  }
+  node[keys[keys.length - 1]] = value;
+}
+
+function applyEnvOverrides(config: Record<string, any>, env: NodeJS.ProcessEnv, problems: string[]) {
+  for (const [name, keyPath, kind] of ENV_OVERRIDES) {
+    const raw = env[name];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    switch (kind) {
+      case 'number': {
+        const value = Number(raw);
+        if (Number.isNaN(value)) {
+          problems.push(`${name} must be a number (got "${raw}")`);
+        } else {
+          setPath(config, keyPath, value);
+        }
+        break;
+      }
+      case 'boolean':
+        if (raw !== 'true' && raw !== 'false') {
+          problems.push(`${name} must be "true" or "false" (got "${raw}")`);
+        } else {
+          setPath(config, keyPath, raw === 'true');
+        }
+        break;
+      case 'list':
+        setPath(config, keyPath, raw.split(',').map(item => item.trim()).filter(Boolean));
+        break;
+      default:
+        setPath(config, keyPath, raw);
+    }
+  }
+}
+
+function validate(config: AppConfig): string[] {
+  const problems: string[] = [];
+
+  const checkInteger = (keyPath: string, value: unknown, min: number, max = Number.MAX_SAFE_INTEGER) => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+      problems.push(`${keyPath} must be an integer ${range} (got ${JSON.stringify(value)})`);
+    }
+  };
+  const checkPositive = (keyPath: string, value: unknown) => {
+    if (typeof value !== 'number' || !(value > 0)) {
+      problems.push(`${keyPath} must be a positive number (got ${JSON.stringify(value)})`);
+    }
+  };
+  const checkString = (keyPath: string, value: unknown) => {
+    if (typeof value !== 'string' || value.trim() === '') {
+      problems.push(`${keyPath} must be a non-empty string (got ${JSON.stringify(value)})`);
+    }
+  };
+  const checkList = (keyPath: string, value: unknown, allowed?: readonly string[]) => {
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      problems.push(`${keyPath} must be a list of strings (got ${JSON.stringify(value)})`);
+      return;
+    }
+    if (allowed) {
+      const invalid = value.filter(item => !allowed.includes(item));
+      if (invalid.length > 0) {
+        problems.push(`${keyPath} contains unknown value(s) ${invalid.join(', ')} (allowed: ${allowed.join(', ')})`);
+      }
+    }
+  };
+
+  checkInteger('server.port', config.server.port, 1, 65535);
+  checkString('server.host', config.server.host);
+  checkList('server.corsOrigins', config.server.corsOrigins);
+  if (typeof config.server.stateful !== 'boolean') {
+    problems.push(`server.stateful must be true or false (got ${JSON.stringify(config.server.stateful)})`);
+  }
+  checkInteger('server.sessionTimeoutSeconds', config.server.sessionTimeoutSeconds, 1);
+
+  checkString('downloads.directory', config.downloads.directory);
+  checkString('downloads.documentsDirectory', config.downloads.documentsDirectory);
+  checkPositive('downloads.maxDocumentSizeMb', config.downloads.maxDocumentSizeMb);
+
+  checkInteger('responses.maxWords', config.responses.maxWords, 100);
+
+  checkInteger('timeouts.nseMs', config.timeouts.nseMs, 1);
+  checkInteger('timeouts.bseMs', config.timeouts.bseMs, 1);
+  checkInteger('timeouts.documentDownloadMs', config.timeouts.documentDownloadMs, 1);
+
+  checkList('tools.enabledGroups', config.tools.enabledGroups, TOOL_GROUPS);
+  checkList('tools.disabledCategories', config.tools.disabledCategories, TOOL_CATEGORIES);
+  checkList('tools.allow', config.tools.allow);
+  checkList('tools.deny', config.tools.deny);
+  if (typeof config.tools.shortDescriptions !== 'boolean') {
+    problems.push(`tools.shortDescriptions must be true or false (got ${JSON.stringify(config.tools.shortDescriptions)})`);
+  }
+  if (typeof config.tools.discoveryMode !== 'boolean') {
+    problems.push(`tools.discoveryMode must be true or false (got ${JSON.stringify(config.tools.discoveryMode)})`);
+  } else if (config.tools.discoveryMode && Array.isArray(config.tools.enabledGroups) && !config.tools.enabledGroups.includes('meta')) {
+    problems.push('tools.discoveryMode requires the meta tool group in tools.enabledGroups');
+  }
+  checkInteger('tools.batchMaxItems', config.tools.batchMaxItems, 1, 100);
+  checkInteger('tools.batchConcurrency', config.tools.batchConcurrency, 1, 20);
+
+  checkPositive('rateLimits.clientPerMinute', config.rateLimits.clientPerMinute);
+  checkPositive('rateLimits.nsePerMinute', config.rateLimits.nsePerMinute);
+  checkPositive('rateLimits.bsePerMinute', config.rateLimits.bsePerMinute);
+
+  if (!UPSTREAM_MODES.includes(config.upstream.mode)) {
+    problems.push(`upstream.mode must be one of ${UPSTREAM_MODES.join(', ')} (got ${JSON.stringify(config.upstream.mode)})`);
+  }
+  checkString('upstream.fixturesDirectory', config.upstream.fixturesDirectory);
+  checkInteger('upstream.retries', config.upstream.retries, 0, 10);
+  checkInteger('upstream.retryBaseDelayMs', config.upstream.retryBaseDelayMs, 1);
+  checkInteger('upstream.breakerFailureThreshold', config.upstream.breakerFailureThreshold, 1);
+  checkInteger('upstream.breakerCooldownSeconds', config.upstream.breakerCooldownSeconds, 1);
+
+  if (!LOG_LEVELS.includes(config.logging.level)) {
+    problems.push(`logging.level must be one of ${LOG_LEVELS.join(', ')} (got ${JSON.stringify(config.logging.level)})`);
+  }
+
+  if (config.auth.keysFile !== undefined) {
+    checkString('auth.keysFile', config.auth.keysFile);
+  }
+
+  if (typeof config.cache.enabled !== 'boolean') {
+    problems.push(`cache.enabled must be true or false (got ${JSON.stringify(config.cache.enabled)})`);
+  }
+  checkInteger('cache.maxEntries', config.cache.maxEntries, 1);
+  checkInteger('cache.staticTtlSeconds', config.cache.staticTtlSeconds, 1);
+  checkInteger('cache.liveTtlSeconds', config.cache.liveTtlSeconds, 1);
+  if (config.cache.directory !== undefined) {
+    checkString('cache.directory', config.cache.directory);
+  }
+
+  return problems;
+}
+
+/**
+ * Load and validate configuration.
+ * Throws ConfigError listing every invalid setting.
+ */
+export function loadConfig(argv: string[] = process.argv, env: NodeJS.ProcessEnv = process.env): AppConfig {
+  const config: AppConfig = structuredClone(DEFAULTS);
+  const problems: string[] = [];
+
+  const configPath = resolveConfigPath(argv, env);
+  if (configPath) {
+    mergeInto(config, readConfigFile(configPath), '', problems);
+  }
+
+  applyEnvOverrides(config, env, problems);
+
+  if (!config.downloads.documentsDirectory && typeof config.downloads.directory === 'string') {
+    config.downloads.documentsDirectory = path.join(config.downloads.directory, 'documents');
+  }
+
+  problems.push(...validate(config));
+  if (problems.length > 0) {
+    throw new ConfigError(problems);
+  }
+
+  return config;
+}
+
+function loadConfigOrExit(): AppConfig {
+  try {
+    return loadConfig();
+  } catch (error: any) {
+    // Logger depends on config, so report directly on stderr
+    process.stderr.write(`${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+export const config: AppConfig = loadConfigOrExit();
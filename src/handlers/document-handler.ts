@@ -5,7 +5,10 @@ import * as http from 'http';
 import { promisify } from 'util';
 import { exec } from 'child_process';
 import { URL } from 'url';
-import { formatLimitedResponse } from '../utils/response-limiter.js';
+import { documentCache } from '../utils/metrics.js';
+import { logger } from '../utils/logger.js';
+import { noProgress, progressStage, ProgressReporter } from '../utils/progress.js';
+import { config } from '../config.js';
 
 const execAsync = promisify(exec);
 
@@ -23,69 +26,38 @@ interface DownloadResult {
   };
 }
 
-interface PageOptions {
+export interface PageOptions {
   startPage?: number;
   endPage?: number;
   pages?: number[];
 }
 
-export async function handleDocumentTool(
-  name: string,
-  args: Record<string, any>
-): Promise<any> {
-  try {
-    if (name === 'download_document') {
-      const result = await downloadAndExtract(
-        args.url,
-        args.max_size_mb || 50,
-        {
-          startPage: args.start_page,
-          endPage: args.end_page,
-          pages: args.pages,
-        }
-      );
-
-      // Document content is already limited by page selection
-      // Just format it properly
-      return formatLimitedResponse(result);
-    }
-
-    if (name === 'read_document_pages') {
-      const result = await readDocumentPages(
-        args.filename,
-        args.url,
-        {
-          startPage: args.start_page,
-          endPage: args.end_page,
-          pages: args.pages,
-        },
-        args.max_size_mb || 50
-      );
-
-      // Document content is already limited by page selection
-      return formatLimitedResponse(result);
-    }
+/**
+ * Cancellation and progress for a document request
+ */
+export interface TaskOptions {
+  signal?: AbortSignal;
+  progress?: ProgressReporter;
+}
 
-    throw new Error(`Unknown document tool: ${name}`);
-  } catch (error: any) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: `Error: ${error.message}`,
-        },
-      ],
-      isError: true,
-    };
-  }
+/**
+ * Page selection from tool arguments (start_page / end_page / pages)
+ */
+export function pageOptionsFromArgs(args: Record<string, any>): PageOptions {
+  return {
+    startPage: args.start_page,
+    endPage: args.end_page,
+    pages: args.pages,
+  };
 }
 
-async function downloadAndExtract(
+export async function downloadAndExtract(
   url: string,
   maxSizeMB: number,
-  pageOptions?: PageOptions
+  pageOptions?: PageOptions,
+  { signal, progress = noProgress }: TaskOptions = {}
 ): Promise<DownloadResult> {
-  const downloadDir = path.join(process.cwd(), 'downloads', 'documents');
+  const downloadDir = path.resolve(config.downloads.documentsDirectory);
 
   // Create downloads directory if it doesn't exist
   if (!fs.existsSync(downloadDir)) {
@@ -101,27 +73,30 @@ async function downloadAndExtract(
     // Check if file already exists
     let fileExists = false;
     let stats: fs.Stats;
+    // Downloading takes the first half of the progress scale
+    let extractProgress = progress;
 
     if (fs.existsSync(filepath)) {
       stats = fs.statSync(filepath);
       fileExists = true;
-      console.log(`File already exists: ${filename} (${(stats.size / 1024 / 1024).toFixed(2)} MB) - Skipping download`);
+      documentCache.inc({ result: 'hit' });
+      logger.info('Document cache hit, skipping download', { filename, sizeBytes: stats.size });
     } else {
       // Download file
-      console.log(`Downloading: ${url}`);
-      await downloadFile(url, filepath, maxSizeMB);
+      documentCache.inc({ result: 'miss' });
+      logger.info('Downloading document', { url });
+      await downloadFile(url, filepath, maxSizeMB, { signal, progress: progressStage(progress, 0, 0.5) });
       stats = fs.statSync(filepath);
-      console.log(`Downloaded: ${filename} (${(stats.size / 1024 / 1024).toFixed(2)} MB)`);
+      logger.info('Downloaded document', { filename, sizeBytes: stats.size });
+      extractProgress = progressStage(progress, 0.5, 1);
     }
 
     const ext = path.extname(filename).toLowerCase();
 
-    console.log(`Downloaded: ${filename} (${(stats.size / 1024 / 1024).toFixed(2)} MB)`);
-
     // Handle different file types
     if (ext === '.pdf') {
       // Extract text from PDF
-      const result = await extractPdfText(filepath, pageOptions);
+      const result = await extractPdfText(filepath, pageOptions, { signal, progress: extractProgress });
       return {
         success: true,
         content: result.text + (fileExists ? '\n\n[Note: Used cached file - already downloaded]' : ''),
@@ -144,14 +119,14 @@ async function downloadAndExtract(
 
       // Check if already extracted
       if (fs.existsSync(extractPath) && fs.readdirSync(extractPath).length > 0) {
-        console.log(`Using cached extraction: ${path.basename(extractPath)}`);
+        logger.info('Using cached ZIP extraction', { directory: path.basename(extractPath) });
         extractedFiles = getAllFiles(extractPath);
       } else {
-        console.log(`Extracting ZIP: ${filename}`);
+        logger.info('Extracting ZIP', { filename });
         extractedFiles = await extractZip(filepath, downloadDir);
       }
 
-      const contents = await readExtractedFiles(extractedFiles);
+      const contents = await readExtractedFiles(extractedFiles, signal);
       return {
         success: true,
         content: contents + (fileExists ? '\n\n[Note: Used cached file - already downloaded]' : ''),
@@ -186,6 +161,8 @@ async function downloadAndExtract(
       };
     }
   } catch (error: any) {
+    // A cancelled call is not an extraction failure
+    if (signal?.aborted) throw error;
     return {
       success: false,
       error: error.message,
@@ -196,18 +173,33 @@ async function downloadAndExtract(
 function downloadFile(
   url: string,
   filepath: string,
-  maxSizeMB: number
+  maxSizeMB: number,
+  { signal, progress = noProgress }: TaskOptions = {}
 ): Promise<void> {
   return new Promise((resolve, reject) => {
     const protocol = url.startsWith('https') ? https : http;
     const maxBytes = maxSizeMB * 1024 * 1024;
+    let fileStream: fs.WriteStream | undefined;
+    let settled = false;
+
+    // Remove partial files so they're never served from the cache
+    const fail = (error: Error) => {
+      if (settled) return;
+      settled = true;
+      request.destroy();
+      fileStream?.destroy();
+      fs.rmSync(filepath, { force: true });
+      reject(error);
+    };
 
-    const request = protocol.get(url, (response) => {
+    const request = protocol.get(url, { signal }, (response) => {
       // Handle redirects
       if (response.statusCode === 301 || response.statusCode === 302) {
         const redirectUrl = response.headers.location;
         if (redirectUrl) {
-          downloadFile(redirectUrl, filepath, maxSizeMB)
+          settled = true;
+          response.resume();
+          downloadFile(redirectUrl, filepath, maxSizeMB, { signal, progress })
             .then(resolve)
             .catch(reject);
           return;
@@ -215,14 +207,15 @@ function downloadFile(
       }
 
       if (response.statusCode !== 200) {
-        reject(new Error(`Failed to download: HTTP ${response.statusCode}`));
+        response.resume();
+        fail(new Error(`Failed to download: HTTP ${response.statusCode}`));
         return;
       }
 
       // Check file size
       const contentLength = parseInt(response.headers['content-length'] || '0');
       if (contentLength > maxBytes) {
-        reject(
+        fail(
           new Error(
             `File too large: ${(contentLength / 1024 / 1024).toFixed(2)} MB (max: ${maxSizeMB} MB)`
           )
@@ -230,44 +223,69 @@ function downloadFile(
         return;
       }
 
-      const fileStream = fs.createWriteStream(filepath);
+      fileStream = fs.createWriteStream(filepath);
       let downloadedBytes = 0;
 
       response.on('data', (chunk) => {
         downloadedBytes += chunk.length;
         if (downloadedBytes > maxBytes) {
-          fileStream.close();
-          fs.unlinkSync(filepath);
-          reject(new Error(`File exceeded size limit during download`));
+          fail(new Error(`File exceeded size limit during download`));
+          return;
+        }
+        if (contentLength > 0) {
+          const mb = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+          progress(downloadedBytes / contentLength, `Downloaded ${mb(downloadedBytes)} of ${mb(contentLength)} MB`);
         }
       });
+      response.on('error', fail);
 
       response.pipe(fileStream);
 
       fileStream.on('finish', () => {
-        fileStream.close();
+        if (settled) return;
+        settled = true;
+        fileStream!.close();
+        progress(1, `Downloaded ${(downloadedBytes / 1024 / 1024).toFixed(1)} MB`);
         resolve();
       });
 
-      fileStream.on('error', (err) => {
-        fs.unlinkSync(filepath);
-        reject(err);
-      });
+      fileStream.on('error', fail);
     });
 
-    request.on('error', reject);
-    request.setTimeout(60000, () => {
-      request.destroy();
-      reject(new Error('Download timeout'));
+    request.on('error', fail);
+    request.setTimeout(config.timeouts.documentDownloadMs, () => {
+      fail(new Error('Download timeout'));
     });
   });
 }
 
-async function extractPdfText(filepath: string, pageOptions?: PageOptions): Promise<{
+/**
+ * Page numbers to extract, in order, from the page options
+ */
+function selectPages(totalPages: number, pageOptions?: PageOptions): number[] {
+  const all = Array.from({ length: totalPages }, (_, index) => index + 1);
+
+  if (pageOptions?.pages && pageOptions.pages.length > 0) {
+    return pageOptions.pages.filter(p => p >= 1 && p <= totalPages);
+  }
+  if (pageOptions?.startPage || pageOptions?.endPage) {
+    const startPage = Math.max(1, pageOptions.startPage || 1);
+    const endPage = Math.min(totalPages, pageOptions.endPage || totalPages);
+    return all.filter(p => p >= startPage && p <= endPage);
+  }
+  return all;
+}
+
+export async function extractPdfText(
+  filepath: string,
+  pageOptions?: PageOptions,
+  { signal, progress = noProgress }: TaskOptions = {}
+): Promise<{
   text: string;
   totalPages: number;
   extractedPages: string;
 }> {
+  let parser: any;
   try {
     // Use pdf-parse library (works cross-platform)
     // Dynamic import to handle ESM module
@@ -275,52 +293,35 @@ async function extractPdfText(filepath: string, pageOptions?: PageOptions): Prom
     const dataBuffer = fs.readFileSync(filepath);
 
     // Create parser with data buffer
-    const parser = new PDFParse({ data: dataBuffer });
-
-    // Extract text
-    const textResult = await parser.getText();
-    const totalPages = textResult.pages.length;
-
-    let extractedText = '';
-    let extractedPages = '';
-
-    if (pageOptions) {
-      // Handle specific pages array
-      if (pageOptions.pages && pageOptions.pages.length > 0) {
-        const validPages = pageOptions.pages.filter(p => p >= 1 && p <= totalPages);
-        extractedPages = validPages.join(', ');
-
-        for (const pageNum of validPages) {
-          const pageIndex = pageNum - 1; // Convert to 0-based
-          if (textResult.pages[pageIndex]) {
-            extractedText += `\n\n--- PAGE ${pageNum} ---\n\n`;
-            extractedText += textResult.pages[pageIndex].text;
-          }
-        }
-      }
-      // Handle page range
-      else if (pageOptions.startPage || pageOptions.endPage) {
-        const startPage = Math.max(1, pageOptions.startPage || 1);
-        const endPage = Math.min(totalPages, pageOptions.endPage || totalPages);
-        extractedPages = `${startPage}-${endPage}`;
-
-        for (let pageNum = startPage; pageNum <= endPage; pageNum++) {
-          const pageIndex = pageNum - 1; // Convert to 0-based
-          if (textResult.pages[pageIndex]) {
-            extractedText += `\n\n--- PAGE ${pageNum} ---\n\n`;
-            extractedText += textResult.pages[pageIndex].text;
-          }
-        }
-      }
-      else {
-        // No valid page options, extract all
-        extractedText = textResult.text;
-        extractedPages = `1-${totalPages}`;
-      }
-    } else {
-      // No page options, extract all
-      extractedText = textResult.text;
+    parser = new PDFParse({ data: dataBuffer });
+
+    // No page is numbered 0, so this only loads the document and counts pages
+    const { total: totalPages } = await parser.getText({ partial: [0] });
+
+    // Parse only the requested pages, one at a time so the work can be cancelled
+    const pageNumbers = selectPages(totalPages, pageOptions);
+    const pageTexts: string[] = [];
+    for (const [index, pageNum] of pageNumbers.entries()) {
+      signal?.throwIfAborted();
+      const pageResult = await parser.getText({ partial: [pageNum] });
+      pageTexts.push(pageResult.pages[0]?.text ?? '');
+      progress((index + 1) / pageNumbers.length, `Parsed page ${pageNum} (${index + 1} of ${pageNumbers.length})`);
+    }
+
+    const selected = pageOptions?.pages?.length || pageOptions?.startPage || pageOptions?.endPage;
+    let extractedText: string;
+    let extractedPages: string;
+
+    if (!selected) {
+      extractedText = pageTexts.map(text => `${text}\n\n`).join('');
       extractedPages = `1-${totalPages}`;
+    } else {
+      extractedText = pageNumbers
+        .map((pageNum, index) => `\n\n--- PAGE ${pageNum} ---\n\n${pageTexts[index]}`)
+        .join('');
+      extractedPages = pageOptions?.pages?.length
+        ? pageNumbers.join(', ')
+        : `${Math.max(1, pageOptions?.startPage || 1)}-${Math.min(totalPages, pageOptions?.endPage || totalPages)}`;
     }
 
     // Build result with metadata
@@ -334,12 +335,18 @@ async function extractPdfText(filepath: string, pageOptions?: PageOptions): Prom
       extractedPages,
     };
   } catch (error: any) {
+    // Cancellation is not a parse failure
+    if (signal?.aborted) {
+      throw error;
+    }
     // Fallback: return error info
     return {
       text: `PDF file: ${path.basename(filepath)}\n\nError extracting text: ${error.message}\n\nFile location: ${filepath}`,
       totalPages: 0,
       extractedPages: 'error',
     };
+  } finally {
+    await parser?.destroy().catch(() => {});
   }
 }
 
@@ -375,7 +382,7 @@ async function extractZip(zipPath: string, extractDir: string): Promise<string[]
   return files;
 }
 
-function getAllFiles(dirPath: string, arrayOfFiles: string[] = []): string[] {
+export function getAllFiles(dirPath: string, arrayOfFiles: string[] = []): string[] {
   const files = fs.readdirSync(dirPath);
 
   files.forEach((file) => {
@@ -390,7 +397,7 @@ function getAllFiles(dirPath: string, arrayOfFiles: string[] = []): string[] {
   return arrayOfFiles;
 }
 
-async function readExtractedFiles(files: string[]): Promise<string> {
+async function readExtractedFiles(files: string[], signal?: AbortSignal): Promise<string> {
   let content = `Extracted ${files.length} file(s):\n\n`;
 
   for (const file of files) {
@@ -415,13 +422,14 @@ async function readExtractedFiles(files: string[]): Promise<string> {
       }
     } else if (ext === '.pdf') {
       try {
-        const pdfResult = await extractPdfText(file);
+        const pdfResult = await extractPdfText(file, undefined, { signal });
         if (pdfResult.text.length > 50000) {
           content += pdfResult.text.substring(0, 50000) + '\n\n[Content truncated - file too large]\n';
         } else {
           content += pdfResult.text + '\n';
         }
       } catch (error) {
+        if (signal?.aborted) throw error;
         content += `[PDF file - text extraction not available]\n`;
       }
     } else {
@@ -432,39 +440,49 @@ async function readExtractedFiles(files: string[]): Promise<string> {
   return content;
 }
 
-async function readDocumentPages(
+export async function readDocumentPages(
   filename: string | undefined,
   url: string | undefined,
   pageOptions: PageOptions,
-  maxSizeMB: number
+  maxSizeMB: number,
+  { signal, progress = noProgress }: TaskOptions = {}
 ): Promise<DownloadResult> {
-  const downloadDir = path.join(process.cwd(), 'downloads', 'documents');
+  const downloadDir = path.resolve(config.downloads.documentsDirectory);
 
   try {
     let filepath: string | null = null;
+    // Downloading (if needed) takes the first half of the progress scale
+    let extractProgress = progress;
 
     // Case 1: Filename provided - check if it exists in cache
     if (filename) {
-      // First try direct path
-      const directPath = path.join(downloadDir, filename);
+      // First try direct path; names may not point outside the documents directory
+      const directPath = path.resolve(downloadDir, filename);
+      if (!directPath.startsWith(downloadDir + path.sep)) {
+        return {
+          success: false,
+          error: `Invalid filename: ${filename}. Use the name of a file in the documents directory.`,
+        };
+      }
 
       if (fs.existsSync(directPath)) {
         filepath = directPath;
-        console.log(`Using cached file: ${filename}`);
+        logger.info('Using cached document', { filename });
       } else {
         // Search recursively in subdirectories
-        console.log(`Searching for file: ${filename} in subdirectories...`);
+        logger.debug('Searching document cache subdirectories', { filename });
         const foundFiles = getAllFiles(downloadDir).filter(f => path.basename(f) === filename);
 
         if (foundFiles.length > 0) {
           filepath = foundFiles[0];
-          console.log(`Found cached file: ${filepath}`);
+          logger.info('Found cached document', { filepath });
         } else if (url) {
           // File not in cache, download from URL
-          console.log(`File not cached, downloading from: ${url}`);
+          logger.info('Document not cached, downloading', { filename, url });
           filepath = directPath;
-          await downloadFile(url, filepath, maxSizeMB);
-          console.log(`Downloaded: ${filename}`);
+          await downloadFile(url, filepath, maxSizeMB, { signal, progress: progressStage(progress, 0, 0.5) });
+          logger.info('Downloaded document', { filename });
+          extractProgress = progressStage(progress, 0.5, 1);
         } else {
           return {
             success: false,
@@ -480,11 +498,12 @@ async function readDocumentPages(
       filepath = path.join(downloadDir, urlFilename);
 
       if (!fs.existsSync(filepath)) {
-        console.log(`Downloading from: ${url}`);
-        await downloadFile(url, filepath, maxSizeMB);
-        console.log(`Downloaded: ${urlFilename}`);
+        logger.info('Downloading document', { url });
+        await downloadFile(url, filepath, maxSizeMB, { signal, progress: progressStage(progress, 0, 0.5) });
+        logger.info('Downloaded document', { filename: urlFilename });
+        extractProgress = progressStage(progress, 0.5, 1);
       } else {
-        console.log(`Using cached file: ${urlFilename}`);
+        logger.info('Using cached document', { filename: urlFilename });
       }
     }
     // Case 3: Neither provided
@@ -513,7 +532,7 @@ async function readDocumentPages(
 
     // Extract the requested pages
     const stats = fs.statSync(filepath);
-    const result = await extractPdfText(filepath, pageOptions);
+    const result = await extractPdfText(filepath, pageOptions, { signal, progress: extractProgress });
 
     return {
       success: true,
@@ -527,6 +546,8 @@ async function readDocumentPages(
       },
     };
   } catch (error: any) {
+    // A cancelled call is not an extraction failure
+    if (signal?.aborted) throw error;
     return {
       success: false,
       error: error.message,
@@ -0,0 +1,95 @@
+/**
+ * Readiness Checks
+ *
+ * Cheap probes of the exchange APIs and the downloads directory, cached so
+ * frequent /ready polling doesn't add upstream load.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+const PROBE_CACHE_MS = 30000;
+
+export type CheckStatus = 'up' | 'down';
+
+export interface CheckResult {
+  status: CheckStatus;
+  lastChecked: string;
+  lastSuccess: string | null;
+  latencyMs: number;
+  error?: string;
+}
+
+export type Probe = () => Promise<unknown>;
+
+class CachedCheck {
+  private result?: CheckResult;
+  private checkedAt = 0;
+  private lastSuccess: string | null = null;
+  private inFlight?: Promise<CheckResult>;
+
+  constructor(private probe: Probe) {}
+
+  async run(): Promise<CheckResult> {
+    if (this.result && Date.now() - this.checkedAt < PROBE_CACHE_MS) {
+      return this.result;
+    }
+
+    // Concurrent /ready requests share one probe
+    if (!this.inFlight) {
+      this.inFlight = this.execute().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  private async execute(): Promise<CheckResult> {
+    const start = Date.now();
+    let error: string | undefined;
+    try {
+      await this.probe();
+      this.lastSuccess = new Date().toISOString();
+    } catch (probeError: any) {
+      error = probeError.message;
+    }
+
+    this.checkedAt = Date.now();
+    this.result = {
+      status: error ? 'down' : 'up',
+      lastChecked: new Date(this.checkedAt).toISOString(),
+      lastSuccess: this.lastSuccess,
+      latencyMs: this.checkedAt - start,
+      error,
+    };
+    return this.result;
+  }
+}
+
+/**
+ * Probe that the directory exists (creating it if needed) and is writable
+ */
+export function directoryWritableProbe(directory: string): Probe {
+  return async () => {
+    const resolved = path.resolve(directory);
+    await fs.promises.mkdir(resolved, { recursive: true });
+    await fs.promises.access(resolved, fs.constants.W_OK);
+  };
+}
+
+export class ReadinessChecker {
+  private checks: Map<string, CachedCheck>;
+
+  constructor(probes: Record<string, Probe>) {
+    this.checks = new Map(
+      Object.entries(probes).map(([name, probe]) => [name, new CachedCheck(probe)])
+    );
+  }
+
+  async check(): Promise<Record<string, CheckResult>> {
+    const entries = await Promise.all(
+      [...this.checks].map(async ([name, check]) => [name, await check.run()] as const)
+    );
+    return Object.fromEntries(entries);
+  }
+}
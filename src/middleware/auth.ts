@@ -0,0 +1,208 @@
+/**
+ * Authentication Middleware
+ *
+ * Protects the /mcp endpoint with static API keys (X-API-Key header) and
+ * bearer tokens (Authorization: Bearer ...). Credentials are read from a local
+ * keys file (auth.keysFile / MCP_AUTH_KEYS_FILE) and/or env (MCP_API_KEYS,
+ * MCP_BEARER_TOKENS).
+ *
+ * Each credential may carry a tool allowlist. Entries ending in '*' match by
+ * prefix, e.g. "nse_*". Credentials without an allowlist may call every tool.
+ *
+ * Keys file format:
+ * {
+ *   "keys": [
+ *     { "name": "dashboard", "type": "api_key", "key": "...", "tools": ["nse_*"] },
+ *     { "name": "agent", "type": "bearer", "key": "..." }
+ *   ]
+ * }
+ */
+
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { config } from '../config.js';
+import { matchesToolPattern } from '../tools/selection.js';
+
+export type CredentialType = 'api_key' | 'bearer';
+
+export interface Credential {
+  name: string;
+  type: CredentialType;
+  key: string;
+  tools?: string[];
+}
+
+/**
+ * Pluggable authentication provider.
+ * Returns auth info for valid credentials, or null if the request is not
+ * authenticated by this provider.
+ */
+export interface AuthProvider {
+  authenticate(req: Request): AuthInfo | null | Promise<AuthInfo | null>;
+}
+
+// Requests carry auth info for the MCP transport to forward to handlers
+type AuthenticatedRequest = Request & { auth?: AuthInfo };
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Provider backed by a fixed set of API keys and bearer tokens.
+ * Keys are held as SHA-256 digests so lookups don't compare raw secrets.
+ */
+export class StaticKeyProvider implements AuthProvider {
+  private credentials = new Map<string, Credential>();
+
+  constructor(credentials: Credential[]) {
+    for (const credential of credentials) {
+      this.credentials.set(`${credential.type}:${hashKey(credential.key)}`, credential);
+    }
+  }
+
+  get size(): number {
+    return this.credentials.size;
+  }
+
+  authenticate(req: Request): AuthInfo | null {
+    const apiKey = req.headers['x-api-key'];
+    if (typeof apiKey === 'string' && apiKey) {
+      return this.lookup('api_key', apiKey);
+    }
+
+    const authorization = req.headers.authorization || '';
+    const match = authorization.match(/^Bearer\s+(.+)$/i);
+    if (match) {
+      return this.lookup('bearer', match[1].trim());
+    }
+
+    return null;
+  }
+
+  private lookup(type: CredentialType, key: string): AuthInfo | null {
+    const credential = this.credentials.get(`${type}:${hashKey(key)}`);
+    if (!credential) {
+      return null;
+    }
+
+    return {
+      token: key,
+      clientId: credential.name,
+      scopes: [],
+      extra: { tools: credential.tools },
+    };
+  }
+}
+
+/**
+ * Load credentials from the keys file and env variables
+ */
+export function loadCredentials(): Credential[] {
+  const credentials: Credential[] = [];
+
+  const keysFile = config.auth.keysFile;
+  if (keysFile) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(fs.readFileSync(keysFile, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`Failed to read auth keys file ${keysFile}: ${error.message}`);
+    }
+
+    const entries = Array.isArray(parsed?.keys) ? parsed.keys : [];
+    entries.forEach((entry: any, index: number) => {
+      if (typeof entry?.key !== 'string' || !entry.key) {
+        throw new Error(`Invalid auth keys file ${keysFile}: keys[${index}].key must be a non-empty string`);
+      }
+      if (entry.type !== undefined && entry.type !== 'api_key' && entry.type !== 'bearer') {
+        throw new Error(`Invalid auth keys file ${keysFile}: keys[${index}].type must be "api_key" or "bearer"`);
+      }
+      if (entry.tools !== undefined && !Array.isArray(entry.tools)) {
+        throw new Error(`Invalid auth keys file ${keysFile}: keys[${index}].tools must be an array of tool names`);
+      }
+      credentials.push({
+        name: entry.name || `key-${index + 1}`,
+        type: entry.type || 'api_key',
+        key: entry.key,
+        tools: entry.tools,
+      });
+    });
+  }
+
+  const splitList = (value: string | undefined) =>
+    (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+  splitList(process.env.MCP_API_KEYS).forEach((key, index) => {
+    credentials.push({ name: `env-api-key-${index + 1}`, type: 'api_key', key });
+  });
+  splitList(process.env.MCP_BEARER_TOKENS).forEach((key, index) => {
+    credentials.push({ name: `env-bearer-${index + 1}`, type: 'bearer', key });
+  });
+
+  return credentials;
+}
+
+/**
+ * Check whether the authenticated client may call a tool.
+ * Requests without auth info (auth disabled, stdio) may call every tool.
+ */
+export function isToolAllowed(authInfo: AuthInfo | undefined, toolName: string): boolean {
+  const allowlist = authInfo?.extra?.tools as string[] | undefined;
+  if (!allowlist) {
+    return true;
+  }
+
+  return allowlist.some(pattern => matchesToolPattern(pattern, toolName));
+}
+
+function sendAuthError(res: Response, status: 401 | 403, message: string) {
+  if (status === 401) {
+    res.setHeader('WWW-Authenticate', 'Bearer realm="nse-bse-mcp"');
+  }
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32001, message },
+    id: null,
+  });
+}
+
+/**
+ * Express middleware: authenticate the request with the first provider that
+ * accepts it, then reject tools/call messages for tools outside the allowlist.
+ */
+export function createAuthMiddleware(providers: AuthProvider[]): RequestHandler {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction) => {
+    let authInfo: AuthInfo | null = null;
+    try {
+      for (const provider of providers) {
+        authInfo = await provider.authenticate(req);
+        if (authInfo) break;
+      }
+    } catch (error: any) {
+      sendAuthError(res, 401, `Unauthorized: ${error.message}`);
+      return;
+    }
+
+    if (!authInfo) {
+      sendAuthError(res, 401, 'Unauthorized: provide a valid X-API-Key header or Bearer token');
+      return;
+    }
+
+    req.auth = authInfo;
+
+    // JSON-RPC bodies may be single messages or batches
+    const messages = Array.isArray(req.body) ? req.body : [req.body];
+    for (const message of messages) {
+      const toolName = message?.method === 'tools/call' ? message.params?.name : undefined;
+      if (typeof toolName === 'string' && !isToolAllowed(authInfo, toolName)) {
+        sendAuthError(res, 403, `Forbidden: client "${authInfo.clientId}" is not allowed to call tool ${toolName}`);
+        return;
+      }
+    }
+
+    next();
+  };
+}
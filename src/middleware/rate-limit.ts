@@ -0,0 +1,35 @@
+/**
+ * Rate Limit Middleware
+ *
+ * Per-client token bucket for the /mcp and REST endpoints, keyed by the authenticated
+ * client id when auth is enabled and by IP address otherwise.
+ */
+
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { KeyedRateLimiter } from '../utils/rate-limiter.js';
+
+export function createRateLimitMiddleware(requestsPerMinute: number): RequestHandler {
+  const limiter = new KeyedRateLimiter(requestsPerMinute);
+
+  return (req: Request & { auth?: AuthInfo }, res: Response, next: NextFunction) => {
+    const key = req.auth ? `client:${req.auth.clientId}` : `ip:${req.ip}`;
+    const retryAfter = limiter.take(key);
+
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32002,
+          message: `Too many requests. Retry after ${retryAfter}s.`,
+          data: { retryAfterSeconds: retryAfter },
+        },
+        id: null,
+      });
+      return;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,243 @@
+/**
+ * Workflow Prompts
+ *
+ * Parameterised prompts for common multi-step analyses. Each prompt spells
+ * out the exact tools to call and in which order, and is only listed when
+ * every tool it relies on is available to the client.
+ */
+
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolAvailability } from '../tools/registry.js';
+import type { CompletionSource } from '../completions/completer.js';
+import { DATE_FORMATS_HELP, tryParseDate } from '../utils/dates.js';
+
+interface WorkflowArgument extends PromptArgument {
+  // Where argument completions come from
+  completion?: CompletionSource;
+}
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  arguments: WorkflowArgument[];
+  // Tools the instructions refer to
+  tools: string[];
+  build: (args: Record<string, string>) => string;
+}
+
+/**
+ * Normalise a date argument to YYYY-MM-DD
+ */
+function isoDate(name: string, value: string): string {
+  const date = tryParseDate(value);
+  if (!date) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} "${value}". Accepted formats: ${DATE_FORMATS_HELP}`);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Today's date on the exchange calendar (IST)
+ */
+function todayIst(): string {
+  return new Date(Date.now() + 5.5 * 60 * 60 * 1000).toISOString().slice(0, 10);
+}
+
+function steps(lines: string[]): string {
+  return lines.map((line, index) => `${index + 1}. ${line}`).join('\n');
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: 'option_sentiment',
+    title: 'Option chain sentiment',
+    description: 'Read option market positioning for a symbol: PCR, max pain and OI build-up for the nearest expiry',
+    arguments: [
+      {
+        name: 'symbol',
+        description: 'Index or stock symbol, e.g. NIFTY, BANKNIFTY, RELIANCE',
+        required: true,
+        completion: 'nse-fno-symbol',
+      },
+      {
+        name: 'expiry',
+        description: 'Expiry in DD-Mon-YYYY format; defaults to the nearest expiry',
+        required: false,
+        completion: 'option-expiry',
+      },
+    ],
+    tools: ['nse_get_expiry_dates', 'nse_compile_option_chain', 'nse_calculate_max_pain'],
+    build: ({ symbol, expiry }) => `Analyse option market sentiment for ${symbol}.
+
+${steps([
+  expiry
+    ? `Use expiry "${expiry}". If a tool rejects it, call nse_get_expiry_dates with symbol "${symbol}" and pick a listed expiry.`
+    : `Call nse_get_expiry_dates with symbol "${symbol}" and take the nearest expiry (DD-Mon-YYYY).`,
+  `Call nse_compile_option_chain with symbol "${symbol}" and that expiry.`,
+  `Call nse_calculate_max_pain with the same symbol and expiry to confirm the max pain strike.`,
+])}
+
+Then summarise:
+- Put-call ratio and whether it reads bullish, bearish or neutral
+- Max pain versus the underlying and the ATM strike
+- Strikes with the highest call OI (resistance) and put OI (support)
+- A one-line overall view, stating the expiry and snapshot time it is based on`,
+  },
+  {
+    name: 'ipo_due_diligence',
+    title: 'IPO due diligence',
+    description: 'Review an NSE IPO: offer details, then the risk factors section of its offer document (DRHP/RHP)',
+    arguments: [
+      { name: 'symbol', description: 'IPO symbol as listed by nse_current_ipos or nse_upcoming_ipos', required: true },
+    ],
+    tools: ['nse_ipo_details', 'download_document', 'read_document_pages'],
+    build: ({ symbol }) => `Carry out due diligence on the ${symbol} IPO.
+
+${steps([
+  `Call nse_ipo_details with symbol "${symbol}". Note the issue size, price band, dates, lot size and the offer document (RHP or DRHP) link.`,
+  `Call download_document with that URL and pages [1, 2, 3, 4, 5] to get the page count and the table of contents.`,
+  `From the table of contents, find the page range of "Risk Factors". Call read_document_pages with the cached filename and start_page/end_page for that section, at most 15 pages at a time.`,
+  `If needed, read the "Objects of the Issue" and "Financial Information" summary pages the same way.`,
+])}
+
+Then summarise:
+- Offer terms (price band, size, fresh issue vs offer for sale, key dates)
+- The most material risk factors, grouped by business, financial and regulatory risk
+- How the proceeds will be used
+- Open questions an investor should follow up on, citing page numbers`,
+  },
+  {
+    name: 'earnings_preview',
+    title: 'Earnings preview',
+    description: 'Prepare for a BSE company\'s upcoming results: result date, price action and recent announcements',
+    arguments: [
+      {
+        name: 'scripcode',
+        description: 'BSE scrip code, e.g. 500325 for RELIANCE',
+        required: true,
+        completion: 'bse-scripcode',
+      },
+    ],
+    tools: ['bse_get_scrip_name', 'bse_result_calendar', 'bse_quote', 'bse_quote_weekly_hl', 'bse_announcements'],
+    build: ({ scripcode }) => `Prepare an earnings preview for BSE scrip ${scripcode}.
+
+${steps([
+  `Call bse_get_scrip_name with scripcode "${scripcode}" to confirm the company.`,
+  `Call bse_result_calendar with scripcode "${scripcode}" to find the scheduled result date.`,
+  `Call bse_quote and bse_quote_weekly_hl with scripcode "${scripcode}" for the current price and the weekly, monthly and 52-week ranges.`,
+  `Call bse_announcements with scripcode "${scripcode}" and max_items 10 for recent board meeting notices, results and other disclosures.`,
+])}
+
+Then summarise:
+- Company name and result date (say so if none is scheduled)
+- Where the stock trades relative to its recent ranges going into results
+- Announcements relevant to the results (board meeting agenda, dividends, fund raising)
+- What to watch for in the results`,
+  },
+  {
+    name: 'daily_market_wrap',
+    title: 'Daily market wrap',
+    description: 'End-of-day summary of NSE and BSE: market status, movers, breadth and index moves',
+    arguments: [
+      { name: 'date', description: `Trading date (${DATE_FORMATS_HELP}); defaults to today`, required: false },
+      {
+        name: 'index',
+        description: 'NSE index to report movers for; defaults to NIFTY 50',
+        required: false,
+        completion: 'nse-index',
+      },
+    ],
+    tools: [
+      'nse_get_market_status',
+      'nse_get_gainers',
+      'nse_get_losers',
+      'nse_list_stocks_by_index',
+      'bse_advance_decline',
+      'bse_all_indices_by_date',
+    ],
+    build: ({ date, index }) => {
+      const day = date ? isoDate('date', date) : todayIst();
+      const movers =
+        index && index.toUpperCase() !== 'NIFTY 50'
+          ? `Call nse_list_stocks_by_index with index "${index}" and take the 5 biggest gainers and losers by pChange.`
+          : `Call nse_get_gainers and nse_get_losers with count 5 for the NIFTY 50 movers.`;
+      return `Write a market wrap for ${day}.
+
+${steps([
+  `Call nse_get_market_status to check whether ${day} was a trading session and whether the market has closed.`,
+  movers,
+  `Call bse_advance_decline for market breadth.`,
+  `Call bse_all_indices_by_date with date "${day}" and fields ["indexname", "currentvalue", "change", "pchange"] for index closes.`,
+])}
+
+Then write a short wrap:
+- Headline index moves (Sensex, Nifty and notable sectoral indices)
+- Breadth: advances versus declines
+- Top gainers and losers with percentage moves
+- One paragraph on the overall tone of the session
+
+If ${day} was not a trading day, say so instead of summarising stale data.`;
+    },
+  },
+];
+
+function findPrompt(name: string, isAvailable: ToolAvailability): PromptDefinition | undefined {
+  const prompt = PROMPTS.find(item => item.name === name);
+  return prompt && prompt.tools.every(isAvailable) ? prompt : undefined;
+}
+
+/**
+ * Prompts whose tools are all available to the client
+ */
+export function listPrompts(isAvailable: ToolAvailability): Prompt[] {
+  return PROMPTS.filter(prompt => prompt.tools.every(isAvailable)).map(({ name, title, description, arguments: args }) => ({
+    name,
+    title,
+    description,
+    arguments: args.map(({ completion, ...argument }) => argument),
+  }));
+}
+
+/**
+ * Completion source for a prompt argument, if it has one
+ */
+export function promptCompletionSource(
+  name: string,
+  argumentName: string,
+  isAvailable: ToolAvailability
+): CompletionSource | undefined {
+  return findPrompt(name, isAvailable)?.arguments.find(argument => argument.name === argumentName)?.completion;
+}
+
+export function getPrompt(
+  name: string,
+  args: Record<string, string> | undefined,
+  isAvailable: ToolAvailability
+): GetPromptResult {
+  const prompt = findPrompt(name, isAvailable);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const values: Record<string, string> = {};
+  for (const argument of prompt.arguments) {
+    const value = args?.[argument.name]?.trim();
+    if (value) {
+      values[argument.name] = value;
+    } else if (argument.required) {
+      throw new McpError(ErrorCode.InvalidParams, `Prompt ${name} requires argument "${argument.name}"`);
+    }
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: prompt.build(values) },
+      },
+    ],
+  };
+}
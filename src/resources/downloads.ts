@@ -0,0 +1,398 @@
+/**
+ * Download Resources
+ *
+ * Files written by the download tools are exposed as MCP resources:
+ * - nse-bse://documents/{filename}                cached documents
+ * - nse-bse://documents/{filename}/pages/{page}   one page of a cached PDF
+ * - nse-bse://bhavcopy/{exchange}/{report}/{date} downloaded bhavcopies (date: YYYY-MM-DD)
+ *
+ * A resource is only visible to a client that can call the tool producing it.
+ * Listeners registered with onResourcesChanged are told when files appear or
+ * disappear, so the server can send resources/list_changed.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import type { Resource, ResourceTemplate, ReadResourceResult } from '@modelcontextprotocol/sdk/types.js';
+import { extractPdfText, getAllFiles } from '../handlers/document-handler.js';
+import type { ToolAvailability } from '../tools/registry.js';
+import { tryParseDate } from '../utils/dates.js';
+import { logger } from '../utils/logger.js';
+import { config } from '../config.js';
+
+const SCHEME = 'nse-bse://';
+
+// JSON-RPC error code for unknown resources (MCP spec)
+const RESOURCE_NOT_FOUND = -32002;
+
+const CHANGE_DEBOUNCE_MS = 500;
+
+const TEXT_EXTENSIONS = new Set(['.txt', '.csv', '.json', '.xml', '.html', '.md']);
+
+const MIME_TYPES: Record<string, string> = {
+  '.pdf': 'application/pdf',
+  '.csv': 'text/csv',
+  '.txt': 'text/plain',
+  '.md': 'text/markdown',
+  '.json': 'application/json',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.zip': 'application/zip',
+};
+
+const DOCUMENT_TOOLS = ['download_document', 'read_document_pages'];
+
+interface BhavcopyReport {
+  exchange: 'nse' | 'bse';
+  report: string;
+  title: string;
+  tool: string;
+  // Named groups: d, y and either m (01-12) or mon (Jan-Dec)
+  patterns: RegExp[];
+}
+
+const BHAVCOPY_REPORTS: BhavcopyReport[] = [
+  {
+    exchange: 'nse',
+    report: 'equity',
+    title: 'NSE equity bhavcopy',
+    tool: 'nse_download_equity_bhavcopy',
+    patterns: [
+      /^BhavCopy_NSE_CM_0_0_0_(?<y>\d{4})(?<m>\d{2})(?<d>\d{2})_F_0000\.csv$/i,
+      /^cm(?<d>\d{2})(?<mon>[A-Z]{3})(?<y>\d{4})bhav\.csv$/i,
+    ],
+  },
+  {
+    exchange: 'nse',
+    report: 'delivery',
+    title: 'NSE delivery bhavcopy',
+    tool: 'nse_download_delivery_bhavcopy',
+    patterns: [/^sec_bhavdata_full_(?<d>\d{2})(?<m>\d{2})(?<y>\d{4})\.csv$/i],
+  },
+  {
+    exchange: 'nse',
+    report: 'indices',
+    title: 'NSE indices bhavcopy',
+    tool: 'nse_download_indices_bhavcopy',
+    patterns: [/^ind_close_all_(?<d>\d{2})(?<m>\d{2})(?<y>\d{4})\.csv$/i],
+  },
+  {
+    exchange: 'nse',
+    report: 'fno',
+    title: 'NSE F&O bhavcopy',
+    tool: 'nse_download_fno_bhavcopy',
+    patterns: [/^BhavCopy_NSE_FO_0_0_0_(?<y>\d{4})(?<m>\d{2})(?<d>\d{2})_F_0000\.csv$/i],
+  },
+  {
+    exchange: 'bse',
+    report: 'equity',
+    title: 'BSE equity bhavcopy',
+    tool: 'bse_download_bhavcopy',
+    patterns: [/^BhavCopy_BSE_CM_0_0_0_(?<y>\d{4})(?<m>\d{2})(?<d>\d{2})_F_0000\.csv$/i],
+  },
+];
+
+interface BhavcopyFile {
+  report: BhavcopyReport;
+  date: string;
+  filepath: string;
+}
+
+function notFound(uri: string, hint?: string): McpError {
+  return new McpError(RESOURCE_NOT_FOUND, `Resource not found: ${uri}${hint ? `. ${hint}` : ''}`, { uri });
+}
+
+function mimeTypeOf(filename: string): string {
+  return MIME_TYPES[path.extname(filename).toLowerCase()] || 'application/octet-stream';
+}
+
+function documentsDirectory(): string {
+  return path.resolve(config.downloads.documentsDirectory);
+}
+
+function downloadsDirectory(): string {
+  return path.resolve(config.downloads.directory);
+}
+
+function documentUri(relativePath: string): string {
+  return `${SCHEME}documents/${encodeURIComponent(relativePath.split(path.sep).join('/'))}`;
+}
+
+function bhavcopyUri(report: BhavcopyReport, date: string): string {
+  return `${SCHEME}bhavcopy/${report.exchange}/${report.report}/${date}`;
+}
+
+/**
+ * Cached documents as paths relative to the documents directory
+ */
+function listDocumentFiles(): string[] {
+  const dir = documentsDirectory();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+  return getAllFiles(dir).map(file => path.relative(dir, file)).sort();
+}
+
+/**
+ * Match a file name against the bhavcopy reports, returning its trade date
+ */
+function matchBhavcopy(filename: string): { report: BhavcopyReport; date: string } | null {
+  for (const report of BHAVCOPY_REPORTS) {
+    for (const pattern of report.patterns) {
+      const groups = filename.match(pattern)?.groups;
+      if (!groups) continue;
+
+      // DD-MM-YYYY and DD-Mon-YYYY are both accepted by tryParseDate
+      const date = tryParseDate(`${groups.d}-${groups.m ?? groups.mon}-${groups.y}`);
+      if (date) {
+        return { report, date: date.toISOString().slice(0, 10) };
+      }
+    }
+  }
+  return null;
+}
+
+function listBhavcopyFiles(): BhavcopyFile[] {
+  const dir = downloadsDirectory();
+  if (!fs.existsSync(dir)) {
+    return [];
+  }
+
+  const files: BhavcopyFile[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const match = entry.isFile() ? matchBhavcopy(entry.name) : null;
+    if (match) {
+      files.push({ ...match, filepath: path.join(dir, entry.name) });
+    }
+  }
+  return files.sort((a, b) => b.date.localeCompare(a.date));
+}
+
+/**
+ * Resolve a document URI path segment to a file inside the documents directory
+ */
+function resolveDocument(uri: string, encodedName: string): string {
+  const dir = documentsDirectory();
+  const filepath = path.resolve(dir, decodeURIComponent(encodedName));
+  if (!filepath.startsWith(dir + path.sep) || !fs.existsSync(filepath) || !fs.statSync(filepath).isFile()) {
+    throw notFound(uri, 'Use download_document to fetch it first');
+  }
+  return filepath;
+}
+
+/**
+ * Concrete resources for files already on disk
+ */
+export function listResources(isAvailable: ToolAvailability): Resource[] {
+  const resources: Resource[] = [];
+
+  if (DOCUMENT_TOOLS.some(isAvailable)) {
+    for (const relativePath of listDocumentFiles()) {
+      resources.push({
+        uri: documentUri(relativePath),
+        name: path.basename(relativePath),
+        title: `Document: ${relativePath}`,
+        mimeType: mimeTypeOf(relativePath),
+      });
+    }
+  }
+
+  for (const file of listBhavcopyFiles()) {
+    if (isAvailable(file.report.tool)) {
+      resources.push({
+        uri: bhavcopyUri(file.report, file.date),
+        name: path.basename(file.filepath),
+        title: `${file.report.title} ${file.date}`,
+        mimeType: mimeTypeOf(file.filepath),
+      });
+    }
+  }
+
+  return resources;
+}
+
+export function listResourceTemplates(isAvailable: ToolAvailability): ResourceTemplate[] {
+  const templates: ResourceTemplate[] = [];
+
+  if (DOCUMENT_TOOLS.some(isAvailable)) {
+    templates.push(
+      {
+        uriTemplate: `${SCHEME}documents/{filename}`,
+        name: 'document',
+        title: 'Cached document',
+        description: 'A document downloaded by download_document. PDFs are returned as extracted text.',
+      },
+      {
+        uriTemplate: `${SCHEME}documents/{filename}/pages/{page}`,
+        name: 'document-page',
+        title: 'Cached PDF page',
+        description: 'Extracted text of one page (1-based) of a cached PDF',
+        mimeType: 'text/plain',
+      }
+    );
+  }
+
+  for (const report of BHAVCOPY_REPORTS) {
+    if (isAvailable(report.tool)) {
+      templates.push({
+        uriTemplate: `${SCHEME}bhavcopy/${report.exchange}/${report.report}/{date}`,
+        name: `bhavcopy-${report.exchange}-${report.report}`,
+        title: report.title,
+        description: `${report.title} for a trade date (YYYY-MM-DD) downloaded with ${report.tool}`,
+        mimeType: 'text/csv',
+      });
+    }
+  }
+
+  return templates;
+}
+
+/**
+ * Values on disk for a resource template variable: cached document names,
+ * or trade dates downloaded for a bhavcopy report
+ */
+export function resourceArgumentValues(uriTemplate: string, argumentName: string, isAvailable: ToolAvailability): string[] {
+  if (argumentName === 'filename' && uriTemplate.startsWith(`${SCHEME}documents/`) && DOCUMENT_TOOLS.some(isAvailable)) {
+    return listDocumentFiles().map(file => file.split(path.sep).join('/'));
+  }
+
+  if (argumentName === 'date') {
+    return listBhavcopyFiles()
+      .filter(file => isAvailable(file.report.tool) && uriTemplate === bhavcopyUri(file.report, '{date}'))
+      .map(file => file.date);
+  }
+
+  return [];
+}
+
+async function readDocument(uri: string, filepath: string): Promise<ReadResourceResult> {
+  const ext = path.extname(filepath).toLowerCase();
+
+  if (ext === '.pdf') {
+    const result = await extractPdfText(filepath);
+    return { contents: [{ uri, mimeType: 'text/plain', text: result.text }] };
+  }
+  if (TEXT_EXTENSIONS.has(ext)) {
+    return { contents: [{ uri, mimeType: mimeTypeOf(filepath), text: fs.readFileSync(filepath, 'utf-8') }] };
+  }
+  return { contents: [{ uri, mimeType: mimeTypeOf(filepath), blob: fs.readFileSync(filepath).toString('base64') }] };
+}
+
+async function readDocumentPage(uri: string, filepath: string, pageText: string): Promise<ReadResourceResult> {
+  const page = Number(pageText);
+  if (path.extname(filepath).toLowerCase() !== '.pdf' || !Number.isInteger(page) || page < 1) {
+    throw notFound(uri, 'Pages are available for PDF documents only, numbered from 1');
+  }
+
+  const result = await extractPdfText(filepath, { pages: [page] });
+  if (page > result.totalPages) {
+    throw notFound(uri, `The document has ${result.totalPages} page(s)`);
+  }
+  return { contents: [{ uri, mimeType: 'text/plain', text: result.text }] };
+}
+
+/**
+ * Read a resource by URI
+ */
+export async function readResource(uri: string, isAvailable: ToolAvailability): Promise<ReadResourceResult> {
+  if (!uri.startsWith(SCHEME)) {
+    throw notFound(uri);
+  }
+  const segments = uri.slice(SCHEME.length).split('/');
+
+  if (segments[0] === 'documents' && DOCUMENT_TOOLS.some(isAvailable)) {
+    if (segments.length === 2) {
+      return readDocument(uri, resolveDocument(uri, segments[1]));
+    }
+    if (segments.length === 4 && segments[2] === 'pages') {
+      return readDocumentPage(uri, resolveDocument(uri, segments[1]), segments[3]);
+    }
+  }
+
+  if (segments[0] === 'bhavcopy' && segments.length === 4) {
+    const [, exchange, reportName, dateText] = segments;
+    const report = BHAVCOPY_REPORTS.find(item => item.exchange === exchange && item.report === reportName);
+    const date = tryParseDate(dateText)?.toISOString().slice(0, 10);
+
+    if (report && date && isAvailable(report.tool)) {
+      const file = listBhavcopyFiles().find(item => item.report === report && item.date === date);
+      if (!file) {
+        throw notFound(uri, `Use ${report.tool} with date ${date} to download it first`);
+      }
+      return { contents: [{ uri, mimeType: mimeTypeOf(file.filepath), text: fs.readFileSync(file.filepath, 'utf-8') }] };
+    }
+  }
+
+  throw notFound(uri);
+}
+
+// File watching is shared by every connected server
+const listeners = new Set<() => void>();
+let watchers: fs.FSWatcher[] = [];
+let debounceTimer: NodeJS.Timeout | undefined;
+let lastSnapshot = '';
+
+function snapshot(): string {
+  const bhavcopies = listBhavcopyFiles().map(file => bhavcopyUri(file.report, file.date));
+  return [...listDocumentFiles(), ...bhavcopies].join('\n');
+}
+
+function scheduleCheck() {
+  clearTimeout(debounceTimer);
+  debounceTimer = setTimeout(() => {
+    const current = snapshot();
+    if (current === lastSnapshot) {
+      return;
+    }
+    lastSnapshot = current;
+    logger.debug('Download resources changed', { listeners: listeners.size });
+    for (const listener of listeners) {
+      listener();
+    }
+  }, CHANGE_DEBOUNCE_MS);
+  debounceTimer.unref();
+}
+
+function startWatching() {
+  lastSnapshot = snapshot();
+
+  const watch = (dir: string, recursive: boolean) => {
+    try {
+      fs.mkdirSync(dir, { recursive: true });
+      const watcher = fs.watch(dir, { persistent: false, recursive }, scheduleCheck);
+      watcher.on('error', error => logger.warn('Download directory watch failed', { directory: dir, error }));
+      watchers.push(watcher);
+    } catch (error: any) {
+      logger.warn('Cannot watch download directory', { directory: dir, error });
+    }
+  };
+
+  watch(downloadsDirectory(), false);
+  watch(documentsDirectory(), true);
+}
+
+function stopWatching() {
+  clearTimeout(debounceTimer);
+  for (const watcher of watchers) {
+    watcher.close();
+  }
+  watchers = [];
+}
+
+/**
+ * Call the listener whenever the set of download resources changes.
+ * Returns a function that removes the listener.
+ */
+export function onResourcesChanged(listener: () => void): () => void {
+  if (listeners.size === 0) {
+    startWatching();
+  }
+  listeners.add(listener);
+
+  return () => {
+    if (listeners.delete(listener) && listeners.size === 0) {
+      stopWatching();
+    }
+  };
+}
@@ -0,0 +1,432 @@
+/**
+ * MCP server factory
+ *
+ * Builds the MCP server with all tool, resource and prompt handlers registered.
+ * Shared by the Streamable HTTP and stdio transports.
+ */
+
+import { randomUUID } from 'crypto';
+import { createRequire } from 'module';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  CompleteRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
+  ReadResourceRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { NSE, BSE } from 'nse-bse-api';
+import { nseTools } from './tools/nse-tools.js';
+import { bseTools } from './tools/bse-tools.js';
+import { documentTools } from './tools/document-tools.js';
+import { createDiscoveryTools, createMetaTools, DISCOVERY_TOOLS } from './tools/meta-tools.js';
+import { Invocation, ToolAvailability, ToolContext, ToolDefinition, ToolRegistry } from './tools/registry.js';
+import { InvalidArgumentError } from './tools/validation.js';
+import { selectTools, unmatchedPatterns } from './tools/selection.js';
+import {
+  listResources,
+  listResourceTemplates,
+  onResourcesChanged,
+  readResource,
+} from './resources/downloads.js';
+import { getPrompt, listPrompts } from './prompts/workflows.js';
+import { SymbolMaster } from './completions/symbol-master.js';
+import { completeArgument } from './completions/completer.js';
+import { MarketCalendar } from './cache/market-hours.js';
+import { ResponseCache } from './cache/response-cache.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { isToolAllowed } from './middleware/auth.js';
+import { Exchange, UpstreamLayer, wrapClient } from './upstream/client-wrapper.js';
+import { rateLimitLayer } from './upstream/rate-limit.js';
+import { metricsLayer } from './upstream/metrics.js';
+import { recordLayer, replayLayer } from './upstream/record-replay.js';
+import { coalesceLayer } from './upstream/coalesce.js';
+import { CircuitBreaker, resilienceLayer, UpstreamUnavailableError } from './upstream/resilience.js';
+import { RateLimitError } from './utils/rate-limiter.js';
+import { toolCalls, toolDuration, toolErrors } from './utils/metrics.js';
+import { createProgressReporter, ProgressReporter } from './utils/progress.js';
+import { digestArgs, logger, runWithLogContext } from './utils/logger.js';
+import { config, ToolGroup } from './config.js';
+
+// Server identity (version comes from package.json so it never drifts)
+const packageJson = createRequire(import.meta.url)('../package.json');
+export const SERVER_NAME = 'nse-bse-mcp-server';
+export const SERVER_VERSION: string = packageJson.version;
+
+// One circuit breaker per exchange, reported on /health
+export const breakers: Record<Exchange, CircuitBreaker> = {
+  NSE: new CircuitBreaker('NSE', {
+    failureThreshold: config.upstream.breakerFailureThreshold,
+    cooldownMs: config.upstream.breakerCooldownSeconds * 1000,
+  }),
+  BSE: new CircuitBreaker('BSE', {
+    failureThreshold: config.upstream.breakerFailureThreshold,
+    cooldownMs: config.upstream.breakerCooldownSeconds * 1000,
+  }),
+};
+
+/**
+ * Layers in front of an exchange client. Identical concurrent calls are
+ * coalesced first. Replay serves fixtures only, so it skips resilience, rate
+ * limiting and metrics; record saves what the exchange returned.
+ */
+function upstreamLayers(exchange: Exchange, requestsPerMinute: number): UpstreamLayer[] {
+  const { mode, fixturesDirectory, retries, retryBaseDelayMs } = config.upstream;
+  if (mode === 'replay') {
+    return [coalesceLayer(), replayLayer(fixturesDirectory)];
+  }
+
+  const layers = [
+    coalesceLayer(),
+    resilienceLayer(breakers[exchange], { retries, baseDelayMs: retryBaseDelayMs }),
+    rateLimitLayer(requestsPerMinute),
+    metricsLayer,
+  ];
+  return mode === 'record' ? [...layers, recordLayer(fixturesDirectory)] : layers;
+}
+
+if (config.upstream.mode !== 'live') {
+  logger.info('Upstream fixtures enabled', { mode: config.upstream.mode, directory: config.upstream.fixturesDirectory });
+}
+
+// Initialize API clients (shared across requests)
+// Total upstream request rates are capped per exchange (requests per minute)
+export const nse = wrapClient(
+  new NSE(config.downloads.directory, { timeout: config.timeouts.nseMs }),
+  'NSE',
+  upstreamLayers('NSE', config.rateLimits.nsePerMinute)
+);
+export const bse = wrapClient(
+  new BSE({ downloadFolder: config.downloads.directory, timeout: config.timeouts.bseMs }),
+  'BSE',
+  upstreamLayers('BSE', config.rateLimits.bsePerMinute)
+);
+
+// Reference lists for argument completion, fetched on first use
+export const symbolMaster = new SymbolMaster(nse, bse);
+
+const toolGroups: Record<ToolGroup, ToolDefinition[]> = {
+  nse: nseTools,
+  bse: bseTools,
+  document: documentTools,
+  meta: [
+    ...createMetaTools(trackedDispatchTool),
+    ...(config.tools.discoveryMode ? createDiscoveryTools(discoverableTools, trackedDispatchTool) : []),
+  ],
+};
+
+// Results of tools with a cache policy, expiring with market hours
+const responseCache = config.cache.enabled
+  ? new ResponseCache(new MarketCalendar(nse), config.cache)
+  : undefined;
+
+// Only selected tools from enabled groups are registered, so only they are listed or callable.
+// Registration fails at startup if a tool is duplicated or has no handler.
+export const registry = new ToolRegistry(responseCache);
+for (const group of config.tools.enabledGroups) {
+  registry.register(group, selectTools(toolGroups[group], config.tools));
+}
+
+/**
+ * Warn about tool allow/deny patterns that match no tool, usually typos.
+ * Called by the transports once the log destination is set.
+ */
+export function warnUnmatchedToolPatterns() {
+  const unmatched = unmatchedPatterns(Object.values(toolGroups).flat(), config.tools);
+  if (unmatched.length > 0) {
+    logger.warn('Tool allow/deny patterns match no tool', { patterns: unmatched });
+  }
+}
+
+/**
+ * Number of callable tools, in total and per enabled group
+ */
+export function getToolCounts(): Record<'total' | ToolGroup, number> {
+  const counts = registry.countByGroup();
+  return {
+    total: registry.definitions().length,
+    nse: counts.nse || 0,
+    bse: counts.bse || 0,
+    document: counts.document || 0,
+    meta: counts.meta || 0,
+  };
+}
+
+export type TrackedCall<T> =
+  | { requestId: string; ok: true; value: T }
+  | { requestId: string; ok: false; error: unknown };
+
+/**
+ * Run a tool call with a request id, one log entry and metrics.
+ * Every call is recorded here, whether it arrives over MCP, REST, batch_call or call_tool.
+ */
+export async function trackToolCall<T>(
+  name: string,
+  args: Record<string, any>,
+  authInfo: AuthInfo | undefined,
+  signal: AbortSignal,
+  run: () => Promise<T>
+): Promise<TrackedCall<T>> {
+  const requestId = randomUUID();
+  // Unknown names share one label to keep metric cardinality bounded
+  const tool = registry.has(name) ? name : 'unknown';
+
+  return runWithLogContext({ requestId, tool: name }, async () => {
+    const startTime = Date.now();
+    const stopTimer = toolDuration.startTimer({ tool });
+    toolCalls.inc({ tool });
+
+    let call: TrackedCall<T>;
+    try {
+      call = { requestId, ok: true, value: await run() };
+    } catch (error) {
+      call = { requestId, ok: false, error };
+    }
+
+    stopTimer();
+    // A call the client cancelled is not a tool failure
+    const cancelled = signal.aborted;
+    if (!call.ok && !cancelled) {
+      toolErrors.inc({ tool });
+    }
+
+    const fields = {
+      clientId: authInfo?.clientId,
+      argsDigest: digestArgs(args),
+      durationMs: Date.now() - startTime,
+      outcome: cancelled ? 'cancelled' : call.ok ? 'success' : 'error',
+      error: call.ok ? undefined : call.error,
+    };
+    if (cancelled) {
+      logger.info('Tool call cancelled', fields);
+    } else if (!call.ok) {
+      logger.warn('Tool call failed', fields);
+    } else {
+      logger.info('Tool call completed', fields);
+    }
+
+    return call;
+  });
+}
+
+/**
+ * Convert a thrown error into an MCP tool error result.
+ * The request id matches the server log entry for the call.
+ * Rate limit and open circuit errors carry a machine-readable retry hint.
+ */
+function toolErrorResult(error: any, requestId: string) {
+  if (error instanceof UpstreamUnavailableError) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: 'upstream_unavailable',
+            exchange: error.exchange,
+            retry_after_seconds: error.retryAfterSeconds,
+            message: error.message,
+            request_id: requestId,
+          }, null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (error instanceof RateLimitError) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: JSON.stringify({
+            error: 'rate_limited',
+            scope: error.scope,
+            retry_after_seconds: error.retryAfterSeconds,
+            message: error.message,
+            request_id: requestId,
+          }, null, 2),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  if (error instanceof InvalidArgumentError) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text:
+            `Error: ${error.message}\n\n` +
+            `Corrected example:\n${JSON.stringify(error.example, null, 2)}\n\n` +
+            `Request ID: ${requestId}`,
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  return {
+    content: [
+      {
+        type: 'text',
+        text: `Error: ${error.message}\n\nRequest ID: ${requestId}`,
+      },
+    ],
+    isError: true,
+  };
+}
+
+export interface McpServerOptions {
+  // Stateless HTTP servers live for one request and can't push notifications
+  notifications?: boolean;
+}
+
+// Create base MCP server
+export function createMcpServer({ notifications = true }: McpServerOptions = {}) {
+  const server = new Server(
+    {
+      name: SERVER_NAME,
+      version: SERVER_VERSION,
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: { listChanged: notifications },
+        prompts: {},
+        completions: {},
+      },
+    }
+  );
+
+  // Register tool list handler (only tools the client is allowed to call)
+  // In discovery mode the other tools are found with search_tools instead
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+    return {
+      tools: registry.list().filter(tool =>
+        isToolAllowed(extra.authInfo, tool.name) &&
+        (!config.tools.discoveryMode || DISCOVERY_TOOLS.has(tool.name))
+      ),
+    };
+  });
+
+  // Register tool execution handler
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+
+    // Progress is only reported when the client asked for it with a token
+    const progress = createProgressReporter(request.params._meta?.progressToken, notification =>
+      extra.sendNotification(notification)
+    );
+
+    const call = await trackToolCall(name, args || {}, extra.authInfo, extra.signal, () =>
+      callTool(name, args || {}, extra.authInfo, extra.signal, progress)
+    );
+    const result = call.ok ? call.value : toolErrorResult(call.error, call.requestId);
+    return { ...result, _meta: { ...result._meta, requestId: call.requestId } };
+  });
+
+  // Resources and prompts are offered only to clients that can call the tools behind them
+  const toolAvailability = (authInfo: AuthInfo | undefined): ToolAvailability =>
+    name => registry.has(name) && isToolAllowed(authInfo, name);
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => ({
+    resources: listResources(toolAvailability(extra.authInfo)),
+  }));
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async (request, extra) => ({
+    resourceTemplates: listResourceTemplates(toolAvailability(extra.authInfo)),
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) =>
+    readResource(request.params.uri, toolAvailability(extra.authInfo))
+  );
+
+  // Workflow prompts, listed only when the tools they use are available
+  server.setRequestHandler(ListPromptsRequestSchema, async (request, extra) => ({
+    prompts: listPrompts(toolAvailability(extra.authInfo)),
+  }));
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) =>
+    getPrompt(request.params.name, request.params.arguments, toolAvailability(extra.authInfo))
+  );
+
+  // Suggestions for prompt arguments and resource template variables
+  server.setRequestHandler(CompleteRequestSchema, async (request, extra) =>
+    completeArgument(request.params, symbolMaster, toolAvailability(extra.authInfo))
+  );
+
+  // Tell the client when downloads add or remove resources
+  if (notifications) {
+    const stopResourceUpdates = onResourcesChanged(() => {
+      server.sendResourceListChanged().catch(error => {
+        logger.debug('Could not send resources/list_changed', { error });
+      });
+    });
+    server.onclose = stopResourceUpdates;
+  }
+
+  return server;
+}
+
+function checkToolAccess(name: string, authInfo: AuthInfo | undefined) {
+  if (!registry.has(name)) {
+    throw new Error(`Unknown or disabled tool: ${name}`);
+  }
+
+  if (!isToolAllowed(authInfo, name)) {
+    throw new Error(`Tool not allowed for client "${authInfo?.clientId}": ${name}`);
+  }
+}
+
+/**
+ * Check access and run the tool from the registry
+ */
+async function callTool(
+  name: string,
+  args: Record<string, any>,
+  authInfo: AuthInfo | undefined,
+  signal: AbortSignal,
+  progress: ProgressReporter
+): Promise<any> {
+  checkToolAccess(name, authInfo);
+  return registry.call(name, args, { nse, bse, signal, progress, authInfo });
+}
+
+/**
+ * Tools search_tools can find: everything the caller may call except the meta tools
+ */
+function discoverableTools(context: ToolContext): ToolDefinition[] {
+  return registry.definitions().filter(
+    definition => definition.category !== 'meta' && isToolAllowed(context.authInfo, definition.name)
+  );
+}
+
+/**
+ * Check access and run the tool, returning its raw result (used by meta tools and REST)
+ */
+export async function dispatchTool(name: string, args: Record<string, any>, context: ToolContext): Promise<Invocation> {
+  checkToolAccess(name, context.authInfo);
+  return registry.invoke(name, args, context);
+}
+
+/**
+ * dispatchTool for calls nested in a meta tool, recorded under their own tool
+ * name so per-tool metrics and logs don't only show the meta tool
+ */
+async function trackedDispatchTool(name: string, args: Record<string, any>, context: ToolContext): Promise<Invocation> {
+  const call = await trackToolCall(name, args, context.authInfo, context.signal, () => dispatchTool(name, args, context));
+  if (!call.ok) {
+    throw call.error;
+  }
+  return call.value;
+}
+
+// Close the shared API clients
+export function closeClients() {
+  nse.exit();
+  bse.close();
+}
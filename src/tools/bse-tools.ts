@@ -1,10 +1,29 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { addFilterProperties } from './common-properties.js';
+import { ToolDefinition } from './registry.js';
+import {
+  advanceDeclineOutput,
+  bseAnnouncementsOutput,
+  bseLookupOutput,
+  bseMoversOutput,
+  bseQuoteOutput,
+  bseSecuritiesOutput,
+  bseWeeklyHighLowOutput,
+  corporateActionsOutput,
+  filePathOutput,
+  indexGroupsOutput,
+  near52WeekOutput,
+  resultCalendarOutput,
+  scripTextOutput,
+} from './output-schemas.js';
+import { parseDate, parseOptionalDate } from '../utils/dates.js';
 
-export const bseTools: Tool[] = [
+export const bseTools: ToolDefinition[] = [
   // Market Data Tools
   {
     name: 'bse_quote',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get real-time stock quote for BSE scrip code',
     inputSchema: {
       type: 'object',
@@ -16,9 +35,14 @@ export const bseTools: Tool[] = [
       },
       required: ['scripcode'],
     },
+    outputSchema: bseQuoteOutput,
+    handler: (args, { bse }) => bse.quote(args.scripcode),
   },
   {
     name: 'bse_quote_weekly_hl',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get 52-week and monthly high/low data for a stock',
     inputSchema: {
       type: 'object',
@@ -30,9 +54,14 @@ export const bseTools: Tool[] = [
       },
       required: ['scripcode'],
     },
+    outputSchema: bseWeeklyHighLowOutput,
+    handler: (args, { bse }) => bse.quoteWeeklyHL(args.scripcode),
   },
   {
     name: 'bse_gainers',
+    category: 'market-data',
+    limit: 'filters',
+    cache: 'live',
     description: 'Get top gainers on BSE. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -53,9 +82,19 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: bseMoversOutput,
+    handler: (args, { bse }) =>
+      bse.gainers({
+        by: args.by,
+        name: args.name,
+        pctChange: args.pct_change,
+      }),
   },
   {
     name: 'bse_losers',
+    category: 'market-data',
+    limit: 'filters',
+    cache: 'live',
     description: 'Get top losers on BSE. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -76,17 +115,32 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: bseMoversOutput,
+    handler: (args, { bse }) =>
+      bse.losers({
+        by: args.by,
+        name: args.name,
+        pctChange: args.pct_change,
+      }),
   },
   {
     name: 'bse_advance_decline',
+    category: 'market-data',
+    limit: 'filters',
+    cache: 'live',
     description: 'Get advance/decline values for all BSE indices. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: advanceDeclineOutput,
+    handler: (_args, { bse }) => bse.advanceDecline(),
   },
   {
     name: 'bse_near_52week',
+    category: 'market-data',
+    limit: 'filters',
+    cache: 'live',
     description: 'Get stocks near 52-week high and low. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -102,11 +156,19 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: near52WeekOutput,
+    handler: (args, { bse }) =>
+      bse.near52WeekHighLow({
+        by: args.by,
+        name: args.name,
+      }),
   },
 
   // Historical Data Tools
   {
     name: 'bse_index_historical',
+    category: 'historical',
+    limit: 'filters',
     description: 'Download historical data for BSE index. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -117,11 +179,11 @@ export const bseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         period: {
           type: 'string',
@@ -131,25 +193,39 @@ export const bseTools: Tool[] = [
       }),
       required: ['index', 'from_date', 'to_date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { bse }) =>
+      bse.fetchHistoricalIndexData({
+        index: args.index,
+        fromDate: parseDate(args.from_date),
+        toDate: parseDate(args.to_date),
+        period: args.period || 'D',
+      }),
   },
   {
     name: 'bse_all_indices_by_date',
+    category: 'historical',
+    limit: 'filters',
     description: 'Fetch daily data for all BSE indices for a specific date. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: indexGroupsOutput,
+    handler: (args, { bse }) => bse.fetchAllIndicesDataByDate(parseDate(args.date)),
   },
 
   // Corporate Information Tools
   {
     name: 'bse_corporate_actions',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get corporate actions (dividends, splits, bonuses). Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -161,11 +237,11 @@ export const bseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         by_date: {
           type: 'string',
@@ -186,9 +262,22 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: corporateActionsOutput,
+    handler: (args, { bse }) =>
+      bse.actions({
+        segment: args.segment,
+        fromDate: parseOptionalDate(args.from_date),
+        toDate: parseOptionalDate(args.to_date),
+        byDate: args.by_date,
+        scripcode: args.scripcode,
+        sector: args.sector,
+        purposeCode: args.purpose_code,
+      }),
   },
   {
     name: 'bse_announcements',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get corporate announcements. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -199,11 +288,11 @@ export const bseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         segment: {
           type: 'string',
@@ -224,20 +313,33 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: bseAnnouncementsOutput,
+    handler: (args, { bse }) =>
+      bse.announcements({
+        pageNo: args.page_no,
+        fromDate: parseOptionalDate(args.from_date),
+        toDate: parseOptionalDate(args.to_date),
+        segment: args.segment,
+        scripcode: args.scripcode,
+        category: args.category,
+        subcategory: args.subcategory,
+      }),
   },
   {
     name: 'bse_result_calendar',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get corporate result calendar. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         scripcode: {
           type: 'string',
@@ -245,11 +347,21 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: resultCalendarOutput,
+    handler: (args, { bse }) =>
+      bse.resultCalendar({
+        fromDate: parseOptionalDate(args.from_date),
+        toDate: parseOptionalDate(args.to_date),
+        scripcode: args.scripcode,
+      }),
   },
 
   // Search & Lookup Tools
   {
     name: 'bse_lookup_symbol',
+    category: 'lookup',
+    limit: 'default',
+    cache: 'static',
     description: 'Search for BSE symbols by company name, symbol, ISIN, or scrip code',
     inputSchema: {
       type: 'object',
@@ -261,9 +373,14 @@ export const bseTools: Tool[] = [
       },
       required: ['text'],
     },
+    outputSchema: bseLookupOutput,
+    handler: (args, { bse }) => bse.lookupSymbol(args.text),
   },
   {
     name: 'bse_get_scrip_name',
+    category: 'lookup',
+    limit: 'default',
+    cache: 'static',
     description: 'Get stock symbol name from BSE scrip code',
     inputSchema: {
       type: 'object',
@@ -275,9 +392,14 @@ export const bseTools: Tool[] = [
       },
       required: ['scripcode'],
     },
+    outputSchema: scripTextOutput,
+    handler: (args, { bse }) => bse.getScripName(args.scripcode),
   },
   {
     name: 'bse_get_scrip_code',
+    category: 'lookup',
+    limit: 'default',
+    cache: 'static',
     description: 'Get BSE scrip code from stock symbol name',
     inputSchema: {
       type: 'object',
@@ -289,9 +411,14 @@ export const bseTools: Tool[] = [
       },
       required: ['scripname'],
     },
+    outputSchema: scripTextOutput,
+    handler: (args, { bse }) => bse.getScripCode(args.scripname),
   },
   {
     name: 'bse_list_securities',
+    category: 'lookup',
+    limit: 'filters',
+    cache: 'static',
     description: 'List securities with filters. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -319,53 +446,80 @@ export const bseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: bseSecuritiesOutput,
+    handler: (args, { bse }) =>
+      bse.listSecurities({
+        industry: args.industry,
+        scripcode: args.scripcode,
+        group: args.group,
+        segment: args.segment,
+        status: args.status,
+      }),
   },
 
   // Report Download Tools
   {
     name: 'bse_download_bhavcopy',
+    category: 'downloads',
+    limit: 'filters',
     description: 'Download daily bhavcopy report. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { bse }) => bse.bhavcopyReport(parseDate(args.date)),
   },
   {
     name: 'bse_download_delivery',
+    category: 'downloads',
+    limit: 'filters',
     description: 'Download daily delivery report. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { bse }) => bse.deliveryReport(parseDate(args.date)),
   },
 
   // Metadata Tools
   {
     name: 'bse_fetch_index_names',
+    category: 'metadata',
+    limit: 'filters',
+    cache: 'static',
     description: 'Get list of all BSE indices. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: indexGroupsOutput,
+    handler: (_args, { bse }) => bse.fetchIndexNames(),
   },
   {
     name: 'bse_fetch_index_metadata',
+    category: 'metadata',
+    limit: 'filters',
+    cache: 'static',
     description: 'Get metadata about BSE index reports. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: indexGroupsOutput,
+    handler: (_args, { bse }) => bse.fetchIndexReportMetadata(),
   },
 ];
@@ -3,6 +3,8 @@
  * These can be added to any tool that returns large datasets
  */
 
+import { FILTER_OPERATORS } from '../utils/response-limiter.js';
+
 export const filterProperties = {
   max_items: {
     type: 'number',
@@ -13,6 +15,41 @@ export const filterProperties = {
     items: { type: 'string' },
     description: 'Specific fields to include in response (e.g., ["symbol", "price", "change"])',
   },
+  where: {
+    type: 'array',
+    description:
+      'Only return items matching every condition, e.g. [{"field": "pChange", "op": "gt", "value": 3}]. Use field names from the results; nested fields use dots (e.g. "CE.openInterest").',
+    items: {
+      type: 'object',
+      properties: {
+        field: { type: 'string', description: 'Field name' },
+        op: {
+          type: 'string',
+          enum: [...FILTER_OPERATORS],
+          description: 'eq, ne, gt, gte, lt, lte (numbers compare numerically), contains (text or list), in (value is a list)',
+        },
+        value: { description: 'Value to compare with; a list for "in"' },
+      },
+      required: ['field', 'op', 'value'],
+    },
+  },
+  sort_by: {
+    type: 'string',
+    description: 'Field to sort items by before they are limited, e.g. "totalTradedVolume"',
+  },
+  sort_order: {
+    type: 'string',
+    enum: ['asc', 'desc'],
+    description: 'Sort direction for sort_by (default: asc)',
+  },
+  offset: {
+    type: 'number',
+    description: 'Index of the first item to return, for paging through large results (default: 0)',
+  },
+  cursor: {
+    type: 'string',
+    description: 'next_cursor from a previous response, to get the next page. Pass the same other arguments.',
+  },
   summary: {
     type: 'boolean',
     description: 'Return only summary instead of full data (useful for very large datasets)',
@@ -1,8 +1,21 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { ToolDefinition } from './registry.js';
+import {
+  documentOutput,
+} from './output-schemas.js';
+import { config } from '../config.js';
+import {
+  downloadAndExtract,
+  pageOptionsFromArgs,
+  readDocumentPages,
+} from '../handlers/document-handler.js';
 
-export const documentTools: Tool[] = [
+// Document content is already limited by page selection, so only the default
+// word budget applies
+export const documentTools: ToolDefinition[] = [
   {
     name: 'download_document',
+    category: 'documents',
+    limit: 'default',
     description: 'Download and extract documents from NSE/BSE. Automatically handles PDFs (extracts text), text files (reads content), and compressed files (extracts and reads contents). Useful for IPO prospectus, annual reports, circulars, etc. Supports page-specific extraction for PDFs.',
     inputSchema: {
       type: 'object',
@@ -13,7 +26,7 @@ export const documentTools: Tool[] = [
         },
         max_size_mb: {
           type: 'number',
-          description: 'Maximum file size to download in MB (default: 50MB)',
+          description: `Maximum file size to download in MB (default: ${config.downloads.maxDocumentSizeMb}MB)`,
         },
         start_page: {
           type: 'number',
@@ -31,9 +44,19 @@ export const documentTools: Tool[] = [
       },
       required: ['url'],
     },
+    outputSchema: documentOutput,
+    handler: (args, { signal, progress }) =>
+      downloadAndExtract(
+        args.url,
+        args.max_size_mb || config.downloads.maxDocumentSizeMb,
+        pageOptionsFromArgs(args),
+        { signal, progress }
+      ),
   },
   {
     name: 'read_document_pages',
+    category: 'documents',
+    limit: 'default',
     description: 'Read specific pages from a document. Can use cached file if available, or download from URL if provided. Useful for accessing different sections of large PDFs without re-downloading the entire document each time.',
     inputSchema: {
       type: 'object',
@@ -61,10 +84,19 @@ export const documentTools: Tool[] = [
         },
         max_size_mb: {
           type: 'number',
-          description: 'Maximum file size to download in MB if re-downloading (default: 50MB)',
+          description: `Maximum file size to download in MB if re-downloading (default: ${config.downloads.maxDocumentSizeMb}MB)`,
         },
       },
       required: [],
     },
+    outputSchema: documentOutput,
+    handler: (args, { signal, progress }) =>
+      readDocumentPages(
+        args.filename,
+        args.url,
+        pageOptionsFromArgs(args),
+        args.max_size_mb || config.downloads.maxDocumentSizeMb,
+        { signal, progress }
+      ),
   },
 ];
@@ -0,0 +1,312 @@
+import { Invocation, ToolContext, ToolDefinition } from './registry.js';
+import { batchOutput, toolResultOutput, toolSearchOutput } from './output-schemas.js';
+import { InvalidArgumentError } from './validation.js';
+import { config, TOOL_CATEGORIES } from '../config.js';
+import { countWords, limitResponse, PageInfo } from '../utils/response-limiter.js';
+import { noProgress } from '../utils/progress.js';
+import { RateLimitError } from '../utils/rate-limiter.js';
+import { UpstreamUnavailableError } from '../upstream/resilience.js';
+
+/**
+ * Runs a tool the caller is allowed to use and returns its raw result
+ */
+export type ToolDispatcher = (
+  name: string,
+  args: Record<string, any>,
+  context: ToolContext
+) => Promise<Invocation>;
+
+/**
+ * Tools the caller may find with search_tools and run with call_tool
+ */
+export type ToolCatalog = (context: ToolContext) => ToolDefinition[];
+
+// The only tools listed in discovery mode
+export const DISCOVERY_TOOLS = new Set(['search_tools', 'call_tool']);
+
+// Words reserved per entry for its index, tool, status and note
+const ENTRY_OVERHEAD_WORDS = 20;
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 20;
+
+interface BatchEntry {
+  index: number;
+  tool: string;
+  status: 'ok' | 'error';
+  data?: unknown;
+  note?: string;
+  page?: PageInfo;
+  error?: string;
+  retry_after_seconds?: number;
+}
+
+/**
+ * Split the word budget across results: results smaller than an even share
+ * keep their full size and the remainder is shared by the larger ones.
+ */
+function allocateBudget(sizes: number[], budget: number): number[] {
+  const shares = new Array<number>(sizes.length);
+  const order = sizes.map((size, index) => ({ size, index })).sort((a, b) => a.size - b.size);
+
+  let remaining = budget;
+  order.forEach(({ size, index }, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    shares[index] = Math.min(size, share);
+    remaining -= shares[index];
+  });
+  return shares;
+}
+
+/**
+ * Run items with at most `limit` in flight, keeping results in input order
+ */
+async function runBounded<T>(count: number, limit: number, run: (index: number) => Promise<T>): Promise<T[]> {
+  const results = new Array<T>(count);
+  let next = 0;
+  const worker = async () => {
+    while (next < count) {
+      const index = next++;
+      results[index] = await run(index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, count) }, worker));
+  return results;
+}
+
+// Lowercase words with a plural 's' dropped, so "quotes" finds nse_equity_quote
+function searchTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(word => (word.length > 3 && word.endsWith('s') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Score a tool against the query terms. Name matches weigh most, then
+ * category, then description.
+ */
+function scoreTool(definition: ToolDefinition, terms: string[], phrase: string): number {
+  const nameTerms = searchTerms(definition.name);
+  const categoryTerms = searchTerms(definition.category);
+  const description = definition.description.toLowerCase();
+  const descriptionTerms = new Set(searchTerms(description));
+
+  let score = 0;
+  for (const term of terms) {
+    if (nameTerms.includes(term)) {
+      score += 5;
+    } else if (definition.name.includes(term)) {
+      score += 3;
+    }
+    if (categoryTerms.includes(term)) {
+      score += 2;
+    }
+    if (descriptionTerms.has(term)) {
+      score += 2;
+    } else if (description.includes(term)) {
+      score += 1;
+    }
+  }
+  // Multi-word queries that appear verbatim, e.g. "option chain"
+  if (terms.length > 1 && (description.includes(phrase) || definition.name.includes(phrase.replace(/\s+/g, '_')))) {
+    score += 3;
+  }
+  return score;
+}
+
+/**
+ * search_tools and call_tool, for discovery mode: clients see only these two
+ * and look up the schemas of the tools they need instead of listing all of them
+ */
+export function createDiscoveryTools(catalog: ToolCatalog, dispatch: ToolDispatcher): ToolDefinition[] {
+  const categories = TOOL_CATEGORIES.filter(category => category !== 'meta');
+
+  return [
+    {
+      name: 'search_tools',
+      category: 'meta',
+      limit: 'default',
+      description: 'Find NSE, BSE and document tools by keyword, e.g. "option chain", "bse announcements" or "historical prices". Returns the best matches with their full input schemas; run one with call_tool.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          query: {
+            type: 'string',
+            description: 'Keywords describing the data you need. May be omitted when category is given.',
+          },
+          category: {
+            type: 'string',
+            enum: categories,
+            description: 'Only return tools in this category',
+          },
+          max_results: {
+            type: 'number',
+            description: `Number of tools to return (default: ${DEFAULT_SEARCH_RESULTS}, max: ${MAX_SEARCH_RESULTS})`,
+          },
+        },
+      },
+      outputSchema: toolSearchOutput,
+      handler: async (args, context) => {
+        const query = String(args.query ?? '').trim();
+        if (!query && !args.category) {
+          throw new InvalidArgumentError('query', 'is required unless category is given', { query: 'option chain' });
+        }
+        const maxResults = Math.min(Math.max(1, Math.floor(args.max_results ?? DEFAULT_SEARCH_RESULTS)), MAX_SEARCH_RESULTS);
+
+        const terms = searchTerms(query);
+        const phrase = terms.join(' ');
+        const matches = catalog(context)
+          .filter(definition => !args.category || definition.category === args.category)
+          .map(definition => ({ definition, score: terms.length > 0 ? scoreTool(definition, terms, phrase) : 1 }))
+          .filter(match => match.score > 0)
+          .sort((a, b) => b.score - a.score);
+
+        return {
+          results: matches.slice(0, maxResults).map(({ definition }) => ({
+            name: definition.name,
+            category: definition.category,
+            description: definition.description,
+            inputSchema: definition.inputSchema,
+          })),
+          total_matches: matches.length,
+        };
+      },
+    },
+    {
+      name: 'call_tool',
+      category: 'meta',
+      // The called tool's own limits apply
+      limit: 'delegate',
+      description: 'Run a tool found with search_tools. Pass its name and arguments matching its input schema; the result is returned as if the tool had been called directly.',
+      inputSchema: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Tool name from search_tools, e.g. nse_equity_quote' },
+          arguments: { type: 'object', description: 'Arguments for the tool' },
+        },
+        required: ['name'],
+      },
+      outputSchema: toolResultOutput,
+      handler: async (args, context) => {
+        const name: string = args.name;
+        if (!catalog(context).some(definition => definition.name === name)) {
+          throw new Error(`Unknown tool: ${name}. Use search_tools to find available tools.`);
+        }
+        return dispatch(name, args.arguments ?? {}, context);
+      },
+    },
+  ];
+}
+
+export function createMetaTools(dispatch: ToolDispatcher): ToolDefinition[] {
+  return [
+    {
+      name: 'batch_call',
+      category: 'meta',
+      // Each result is limited to its share of one word budget for the whole batch
+      limit: 'none',
+      description: `Run several tool calls in one request, e.g. quotes for multiple symbols plus gainers and VIX for a dashboard. Calls run concurrently (up to ${config.tools.batchConcurrency} at a time) and return per-call results or errors in request order. The response shares one size budget across all calls, so use max_items and fields on each call to keep results useful.`,
+      inputSchema: {
+        type: 'object',
+        properties: {
+          calls: {
+            type: 'array',
+            description: `Tool calls to run (1-${config.tools.batchMaxItems}). batch_call can't be nested.`,
+            items: {
+              type: 'object',
+              properties: {
+                tool: { type: 'string', description: 'Tool name, e.g. nse_equity_quote' },
+                arguments: { type: 'object', description: 'Arguments for the tool' },
+              },
+              required: ['tool'],
+            },
+          },
+        },
+        required: ['calls'],
+      },
+      outputSchema: batchOutput,
+      handler: async (args, context) => {
+        const calls: Array<{ tool: string; arguments?: Record<string, any> }> = args.calls;
+        if (calls.length === 0 || calls.length > config.tools.batchMaxItems) {
+          throw new Error(`calls must contain between 1 and ${config.tools.batchMaxItems} items (got ${calls.length})`);
+        }
+
+        let completed = 0;
+        const outcomes = await runBounded(calls.length, config.tools.batchConcurrency, async index => {
+          const { tool, arguments: callArgs = {} } = calls[index];
+          try {
+            context.signal.throwIfAborted();
+            if (tool === 'batch_call') {
+              throw new Error('batch_call cannot be nested');
+            }
+            return await dispatch(tool, callArgs, { ...context, progress: noProgress });
+          } catch (error: any) {
+            return error instanceof Error ? error : new Error(String(error));
+          } finally {
+            context.progress(++completed / calls.length, `Completed ${completed} of ${calls.length} calls`);
+          }
+        });
+        context.signal.throwIfAborted();
+
+        const entries: BatchEntry[] = outcomes.map((outcome, index) => {
+          const entry: BatchEntry = { index, tool: calls[index].tool, status: outcome instanceof Error ? 'error' : 'ok' };
+          if (outcome instanceof Error) {
+            entry.error = outcome.message;
+            if (outcome instanceof RateLimitError || outcome instanceof UpstreamUnavailableError) {
+              entry.retry_after_seconds = outcome.retryAfterSeconds;
+            }
+          }
+          return entry;
+        });
+
+        // Share what's left of the budget after errors and entry overhead
+        const successes = entries.filter(entry => entry.status === 'ok');
+        const overhead = entries.reduce(
+          (words, entry) => words + ENTRY_OVERHEAD_WORDS + (entry.error ? countWords(entry.error) : 0),
+          0
+        );
+        const sizes = successes.map(entry => {
+          const { result } = outcomes[entry.index] as Invocation;
+          return result === null || result === undefined ? 0 : countWords(JSON.stringify(result, null, 2));
+        });
+        const shares = allocateBudget(sizes, Math.max(0, config.responses.maxWords - overhead));
+
+        successes.forEach((entry, position) => {
+          const { result, limitOptions } = outcomes[entry.index] as Invocation;
+          const share = Math.max(1, shares[position]);
+          let limited: ReturnType<typeof limitResponse>;
+          try {
+            limited = limitResponse(result, { ...limitOptions, maxWords: share });
+          } catch (error: any) {
+            // where / sort_by naming a field the result doesn't have
+            entry.status = 'error';
+            entry.error = error.message;
+            return;
+          }
+
+          // Metadata for very wide results can itself exceed a small share
+          const words = countWords(JSON.stringify(limited.data ?? null, null, 2));
+          if (limited.truncated && words > share) {
+            entry.note = `Result (${sizes[position]} words) doesn't fit its share of the batch budget (${share} words). Call ${entry.tool} on its own, or add max_items/fields.`;
+            return;
+          }
+
+          entry.data = limited.data;
+          if (limited.truncated && limited.message) {
+            entry.note = limited.message;
+          }
+          if (limited.page) {
+            entry.page = limited.page;
+          }
+        });
+
+        return {
+          results: entries,
+          succeeded: entries.filter(entry => entry.status === 'ok').length,
+          failed: entries.filter(entry => entry.status === 'error').length,
+        };
+      },
+    },
+  ];
+}
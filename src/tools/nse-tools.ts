@@ -1,18 +1,42 @@
-import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { NSEApi } from 'nse-bse-api';
 import { addFilterProperties } from './common-properties.js';
+import { ToolDefinition } from './registry.js';
+import {
+  compiledOptionChainOutput,
+  corporateActionsOutput,
+  filePathOutput,
+  fnoLotsOutput,
+  maxPainOutput,
+  nseMoversOutput,
+  nseQuoteOutput,
+  ohlcSeriesOutput,
+  optionChainOutput,
+  recordListOutput,
+  recordOutput,
+  stringListOutput,
+} from './output-schemas.js';
+import { parseDate, parseOptionalDate } from '../utils/dates.js';
 
-export const nseTools: Tool[] = [
+export const nseTools: ToolDefinition[] = [
   // Market Data Tools
   {
     name: 'nse_get_market_status',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get current NSE market status including trading hours and market state',
     inputSchema: {
       type: 'object',
       properties: {},
     },
+    outputSchema: recordListOutput,
+    handler: (_args, { nse }) => nse.status(),
   },
   {
     name: 'nse_equity_quote',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get real-time equity quote for a symbol on NSE',
     inputSchema: {
       type: 'object',
@@ -24,9 +48,14 @@ export const nseTools: Tool[] = [
       },
       required: ['symbol'],
     },
+    outputSchema: nseQuoteOutput,
+    handler: (args, { nse }) => nse.equityQuote(args.symbol),
   },
   {
     name: 'nse_get_quote',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get quote for any symbol with segment specification',
     inputSchema: {
       type: 'object',
@@ -43,9 +72,18 @@ export const nseTools: Tool[] = [
       },
       required: ['symbol'],
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) =>
+      nse.quote({
+        symbol: args.symbol,
+        segment: args.segment,
+      }),
   },
   {
     name: 'nse_lookup_symbol',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'static',
     description: 'Search for symbols on NSE by name or partial match',
     inputSchema: {
       type: 'object',
@@ -57,9 +95,14 @@ export const nseTools: Tool[] = [
       },
       required: ['query'],
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) => nse.lookup(args.query),
   },
   {
     name: 'nse_get_gainers',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get top gainers from market data',
     inputSchema: {
       type: 'object',
@@ -70,9 +113,17 @@ export const nseTools: Tool[] = [
         },
       },
     },
+    outputSchema: nseMoversOutput,
+    handler: async (args, { nse }) => {
+      const data = await nse.listEquityStocksByIndex('NIFTY 50');
+      return nse.gainers(data, args.count || 10);
+    },
   },
   {
     name: 'nse_get_losers',
+    category: 'market-data',
+    limit: 'default',
+    cache: 'live',
     description: 'Get top losers from market data',
     inputSchema: {
       type: 'object',
@@ -83,11 +134,18 @@ export const nseTools: Tool[] = [
         },
       },
     },
+    outputSchema: nseMoversOutput,
+    handler: async (args, { nse }) => {
+      const data = await nse.listEquityStocksByIndex('NIFTY 50');
+      return nse.losers(data, args.count || 10);
+    },
   },
 
   // Historical Data Tools
   {
     name: 'nse_equity_historical',
+    category: 'historical',
+    limit: 'filters',
     description: 'Fetch historical equity data for a symbol. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -98,11 +156,11 @@ export const nseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         series: {
           type: 'string',
@@ -111,10 +169,20 @@ export const nseTools: Tool[] = [
       }),
       required: ['symbol', 'from_date', 'to_date'],
     },
+    outputSchema: ohlcSeriesOutput,
+    handler: (args, { nse }) =>
+      nse.fetch_equity_historical_data({
+        symbol: args.symbol,
+        from_date: parseDate(args.from_date),
+        to_date: parseDate(args.to_date),
+        series: args.series || 'EQ',
+      }),
   },
 
   {
     name: 'nse_fno_historical',
+    category: 'historical',
+    limit: 'filters',
     description: 'Fetch historical F&O data. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -125,11 +193,11 @@ export const nseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         instrument_type: {
           type: 'string',
@@ -137,33 +205,52 @@ export const nseTools: Tool[] = [
         },
         expiry_date: {
           type: 'string',
-          description: 'Expiry date (YYYY-MM-DD)',
+          description: 'Expiry date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['symbol', 'from_date', 'to_date'],
     },
+    outputSchema: ohlcSeriesOutput,
+    handler: (args, { nse }) =>
+      nse.fetch_historical_fno_data({
+        symbol: args.symbol,
+        from_date: parseDate(args.from_date),
+        to_date: parseDate(args.to_date),
+        instrument_type: args.instrument_type,
+        expiry_date: parseOptionalDate(args.expiry_date),
+      }),
   },
   {
     name: 'nse_vix_historical',
+    category: 'historical',
+    limit: 'filters',
     description: 'Fetch historical VIX (volatility index) data. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
     },
+    outputSchema: ohlcSeriesOutput,
+    handler: (args, { nse }) =>
+      nse.fetch_historical_vix_data({
+        from_date: parseOptionalDate(args.from_date),
+        to_date: parseOptionalDate(args.to_date),
+      }),
   },
 
   // Options & Derivatives Tools (V3 API - Recommended)
   {
     name: 'nse_get_expiry_dates',
+    category: 'options',
+    limit: 'default',
     description:
       'Get all available option expiry dates for a symbol. CALL THIS FIRST before using other option chain tools to get valid expiry dates. Returns dates sorted chronologically in DD-Mon-YYYY format (e.g., "12-Dec-2024", "19-Dec-2024"). Works for index options (NIFTY, BANKNIFTY, FINNIFTY, MIDCPNIFTY) and stock options (RELIANCE, TCS, etc.).',
     inputSchema: {
@@ -177,9 +264,14 @@ export const nseTools: Tool[] = [
       },
       required: ['symbol'],
     },
+    outputSchema: stringListOutput,
+    handler: (args, { nse }) => nse.getExpiryDatesV3(args.symbol),
   },
   {
     name: 'nse_option_chain',
+    category: 'options',
+    limit: 'filters',
+    cache: 'live',
     description:
       'Get complete option chain data for a symbol with all strikes and expiries. Returns full CE (Call) and PE (Put) data including lastPrice, openInterest, impliedVolatility, change, volume for each strike. Best for comprehensive analysis. For large symbols like NIFTY, use nse_filtered_option_chain instead to reduce data size. Expiry defaults to nearest if not specified.',
     inputSchema: {
@@ -204,9 +296,19 @@ export const nseTools: Tool[] = [
       }),
       required: ['symbol'],
     },
+    outputSchema: optionChainOutput,
+    handler: (args, { nse }) =>
+      nse.optionChainV3({
+        symbol: args.symbol,
+        expiry: args.expiry,
+        type: args.type,
+      }),
   },
   {
     name: 'nse_filtered_option_chain',
+    category: 'options',
+    limit: 'filters',
+    cache: 'live',
     description:
       'Get a compact option chain with only essential data around ATM (At-The-Money) strikes. RECOMMENDED for LLM usage - reduces response size by ~90% while keeping key metrics: lastPrice, openInterest, changeinOpenInterest, impliedVolatility, totalTradedVolume for both CE and PE. Returns: symbol, underlyingValue, atmStrike, timestamp, and filtered strike data.',
     inputSchema: {
@@ -230,9 +332,15 @@ export const nseTools: Tool[] = [
       }),
       required: ['symbol'],
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) =>
+      nse.filteredOptionChainV3(args.symbol, args.expiry, args.strike_range),
   },
   {
     name: 'nse_compile_option_chain',
+    category: 'options',
+    limit: 'filters',
+    cache: 'live',
     description:
       'Get pre-calculated option chain analytics for a specific expiry. Returns comprehensive metrics: ATM strike, max pain level, Put-Call Ratio (PCR), max Call OI strike, max Put OI strike, total Call/Put OI, and full chain with per-strike PCR. Best for quick market sentiment analysis without manual calculations.',
     inputSchema: {
@@ -251,9 +359,14 @@ export const nseTools: Tool[] = [
       }),
       required: ['symbol', 'expiry'],
     },
+    outputSchema: compiledOptionChainOutput,
+    handler: (args, { nse }) => nse.compileOptionChainV3(args.symbol, args.expiry),
   },
   {
     name: 'nse_calculate_max_pain',
+    category: 'options',
+    limit: 'default',
+    cache: 'live',
     description:
       'Calculate the max pain strike price for options. Max pain is the strike price where option buyers would lose the most money (and option writers profit most) at expiry. Useful for predicting potential expiry settlement levels. Returns a single strike price number.',
     inputSchema: {
@@ -272,17 +385,32 @@ export const nseTools: Tool[] = [
       },
       required: ['symbol', 'expiry'],
     },
+    outputSchema: maxPainOutput,
+    handler: async (args, { nse }) => {
+      const optionChainV3 = await nse.optionChainV3({
+        symbol: args.symbol,
+        expiry: args.expiry,
+      });
+      return NSEApi.OptionsApi.calculateMaxPainV3(optionChainV3, args.expiry);
+    },
   },
   {
     name: 'nse_fno_lots',
+    category: 'options',
+    limit: 'filters',
+    cache: 'static',
     description: 'Get F&O lot sizes for all symbols. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: fnoLotsOutput,
+    handler: (_args, { nse }) => nse.fnoLots(),
   },
   {
     name: 'nse_futures_expiry',
+    category: 'options',
+    limit: 'default',
     description: 'Get futures expiry dates',
     inputSchema: {
       type: 'object',
@@ -294,11 +422,15 @@ export const nseTools: Tool[] = [
         },
       },
     },
+    outputSchema: stringListOutput,
+    handler: (args, { nse }) => nse.getFuturesExpiry(args.index || 'nifty'),
   },
 
   // Corporate Information Tools
   {
     name: 'nse_corporate_actions',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get corporate actions (dividends, splits, bonuses). Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -309,11 +441,11 @@ export const nseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         segment: {
           type: 'string',
@@ -321,9 +453,19 @@ export const nseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: corporateActionsOutput,
+    handler: (args, { nse }) =>
+      nse.actions({
+        symbol: args.symbol,
+        from_date: parseOptionalDate(args.from_date),
+        to_date: parseOptionalDate(args.to_date),
+        segment: args.segment,
+      }),
   },
   {
     name: 'nse_corporate_announcements',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get corporate announcements. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -334,17 +476,26 @@ export const nseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
     },
+    outputSchema: recordListOutput,
+    handler: (args, { nse }) =>
+      nse.announcements({
+        symbol: args.symbol,
+        from_date: parseOptionalDate(args.from_date),
+        to_date: parseOptionalDate(args.to_date),
+      }),
   },
   {
     name: 'nse_board_meetings',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get board meeting information. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -355,17 +506,26 @@ export const nseTools: Tool[] = [
         },
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
     },
+    outputSchema: recordListOutput,
+    handler: (args, { nse }) =>
+      nse.boardMeetings({
+        symbol: args.symbol,
+        from_date: parseOptionalDate(args.from_date),
+        to_date: parseOptionalDate(args.to_date),
+      }),
   },
   {
     name: 'nse_annual_reports',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get annual reports for a company. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -381,61 +541,86 @@ export const nseTools: Tool[] = [
       }),
       required: ['symbol'],
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) => nse.annual_reports(args.symbol, args.segment || 'equities'),
   },
   {
     name: 'nse_circulars',
+    category: 'corporate',
+    limit: 'filters',
     description: 'Get NSE circulars. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) =>
+      nse.circulars({
+        from_date: parseOptionalDate(args.from_date),
+        to_date: parseOptionalDate(args.to_date),
+      }),
   },
 
   // IPO Tools
   {
     name: 'nse_current_ipos',
+    category: 'ipo',
+    limit: 'default',
     description: 'List current/ongoing IPOs',
     inputSchema: {
       type: 'object',
       properties: {},
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.listCurrentIPO(),
   },
   {
     name: 'nse_upcoming_ipos',
+    category: 'ipo',
+    limit: 'default',
     description: 'List upcoming IPOs',
     inputSchema: {
       type: 'object',
       properties: {},
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.listUpcomingIPO(),
   },
   {
     name: 'nse_past_ipos',
+    category: 'ipo',
+    limit: 'default',
     description: 'List past IPOs',
     inputSchema: {
       type: 'object',
       properties: {
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       },
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) =>
+      nse.listPastIPO(parseOptionalDate(args.from_date), parseOptionalDate(args.to_date)),
   },
   {
     name: 'nse_ipo_details',
+    category: 'ipo',
+    limit: 'default',
     description: 'Get detailed IPO information',
     inputSchema: {
       type: 'object',
@@ -447,37 +632,50 @@ export const nseTools: Tool[] = [
       },
       required: ['symbol'],
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) => nse.getIpoDetails({ symbol: args.symbol }),
   },
 
   // Market Activity Tools
   {
     name: 'nse_block_deals',
+    category: 'market-activity',
+    limit: 'filters',
     description: 'Get block deals data. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.blockDeals(),
   },
   {
     name: 'nse_bulk_deals',
+    category: 'market-activity',
+    limit: 'filters',
     description: 'Get bulk deals data. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         from_date: {
           type: 'string',
-          description: 'Start date (YYYY-MM-DD)',
+          description: 'Start date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
         to_date: {
           type: 'string',
-          description: 'End date (YYYY-MM-DD)',
+          description: 'End date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['from_date', 'to_date'],
     },
+    outputSchema: recordListOutput,
+    handler: (args, { nse }) => nse.bulkdeals(parseDate(args.from_date), parseDate(args.to_date)),
   },
   {
     name: 'nse_holidays',
+    category: 'market-activity',
+    limit: 'default',
+    cache: 'static',
     description: 'Get market holidays',
     inputSchema: {
       type: 'object',
@@ -489,19 +687,29 @@ export const nseTools: Tool[] = [
         },
       },
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) => nse.holidays(args.type || 'trading'),
   },
 
   // Lists & Metadata Tools
   {
     name: 'nse_list_indices',
+    category: 'lists',
+    limit: 'filters',
+    cache: 'static',
     description: 'List all NSE indices. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.listIndices(),
   },
   {
     name: 'nse_list_stocks_by_index',
+    category: 'lists',
+    limit: 'filters',
+    cache: 'live',
     description: 'List all stocks in an index. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
@@ -512,33 +720,53 @@ export const nseTools: Tool[] = [
         },
       }),
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) => nse.listEquityStocksByIndex(args.index),
   },
   {
     name: 'nse_list_etf',
+    category: 'lists',
+    limit: 'filters',
+    cache: 'live',
     description: 'List all ETFs. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.listEtf(),
   },
   {
     name: 'nse_list_sme',
+    category: 'lists',
+    limit: 'filters',
+    cache: 'live',
     description: 'List all SME stocks. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.listSme(),
   },
   {
     name: 'nse_list_sgb',
+    category: 'lists',
+    limit: 'filters',
+    cache: 'live',
     description: 'List all Sovereign Gold Bonds. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({}),
     },
+    outputSchema: recordOutput,
+    handler: (_args, { nse }) => nse.listSgb(),
   },
   {
     name: 'nse_equity_meta_info',
+    category: 'lists',
+    limit: 'default',
+    cache: 'static',
     description: 'Get metadata for an equity symbol',
     inputSchema: {
       type: 'object',
@@ -550,63 +778,81 @@ export const nseTools: Tool[] = [
       },
       required: ['symbol'],
     },
+    outputSchema: recordOutput,
+    handler: (args, { nse }) => nse.equityMetaInfo(args.symbol),
   },
 
   // Download Tools
   {
     name: 'nse_download_equity_bhavcopy',
+    category: 'downloads',
+    limit: 'filters',
     description: 'Download equity bhavcopy report. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { nse }) => nse.equityBhavcopy(parseDate(args.date)),
   },
   {
     name: 'nse_download_delivery_bhavcopy',
+    category: 'downloads',
+    limit: 'filters',
     description: 'Download delivery bhavcopy report. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { nse }) => nse.deliveryBhavcopy(parseDate(args.date)),
   },
   {
     name: 'nse_download_indices_bhavcopy',
+    category: 'downloads',
+    limit: 'filters',
     description: 'Download indices bhavcopy report. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { nse }) => nse.indicesBhavcopy(parseDate(args.date)),
   },
   {
     name: 'nse_download_fno_bhavcopy',
+    category: 'downloads',
+    limit: 'filters',
     description: 'Download F&O bhavcopy report. Use max_items and fields to limit large responses.',
     inputSchema: {
       type: 'object',
       properties: addFilterProperties({
         date: {
           type: 'string',
-          description: 'Date (YYYY-MM-DD)',
+          description: 'Date (YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY)',
         },
       }),
       required: ['date'],
     },
+    outputSchema: filePathOutput,
+    handler: (args, { nse }) => nse.fnoBhavcopy(parseDate(args.date)),
   },
 ];
@@ -0,0 +1,323 @@
+/**
+ * Output Schemas
+ *
+ * Shapes of the `structuredContent` returned alongside the text result.
+ * Arrays are wrapped as `{ items: [...] }` and scalars as `{ value: ... }`
+ * because structured content must be an object.
+ *
+ * Fields are documented but never required: `fields` filtering and response
+ * limiting may drop them. Upstream exchanges report many numbers as strings
+ * and leave missing values null, so raw exchange numbers accept all three.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+export type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+const numeric = (description: string) => ({ type: ['number', 'string', 'null'], description });
+const text = (description: string) => ({ type: 'string', description });
+
+// Added by the response limiter when a result is too large or filtered
+const limitProperties = {
+  _message: text('Present when the response was limited; explains what was cut'),
+  _metadata: { type: 'object', description: 'Size, fields and sample data when the full result was too large' },
+  _instructions: text('Suggested filters to fetch the data in smaller pieces'),
+  _text: text('Summary or truncated text when the result could not be returned as data'),
+  _page: {
+    type: 'object',
+    description: 'Present when one page of a large result was returned',
+    properties: {
+      path: text('Location of the paged array, e.g. records.data; absent when the result itself is paged'),
+      offset: { type: 'number' },
+      returned: { type: 'number' },
+      total_items: { type: 'number' },
+      has_more: { type: 'boolean' },
+      next_cursor: text('Pass as cursor to get the next page'),
+    },
+  },
+};
+
+function objectOutput(properties: Record<string, any> = {}): OutputSchema {
+  return {
+    type: 'object',
+    properties: { ...properties, ...limitProperties },
+  };
+}
+
+function listOutput(itemProperties: Record<string, any> = {}, description = 'Result rows'): OutputSchema {
+  return objectOutput({
+    items: {
+      type: 'array',
+      description,
+      items: { type: 'object', properties: itemProperties },
+    },
+  });
+}
+
+function valueOutput(schema: Record<string, any>): OutputSchema {
+  return objectOutput({ value: schema });
+}
+
+/**
+ * Raw exchange payloads of unknown shape: either an object or a list of rows
+ */
+export const recordOutput = objectOutput({
+  items: { type: 'array', description: 'Result rows, when the exchange returns a list' },
+});
+
+export const recordListOutput = listOutput();
+
+export const stringListOutput = objectOutput({
+  items: { type: 'array', items: { type: 'string' } },
+});
+
+export const filePathOutput = valueOutput({
+  type: ['string', 'null'],
+  description: 'Path of the downloaded file on the server',
+});
+
+export const scripTextOutput = valueOutput(text('Scrip name or code'));
+
+export const nseQuoteOutput = objectOutput({
+  date: text('Trade date'),
+  open: numeric('Open price'),
+  high: numeric('Day high'),
+  low: numeric('Day low'),
+  close: numeric('Last or closing price'),
+  volume: numeric('Traded volume'),
+});
+
+export const nseMoversOutput = listOutput(
+  {
+    symbol: text('Trading symbol'),
+    lastPrice: numeric('Last traded price'),
+    pChange: numeric('Percentage change'),
+  },
+  'Stocks sorted by percentage change'
+);
+
+export const ohlcSeriesOutput = listOutput(
+  {},
+  'Daily rows (date, open, high, low, close, volume) as named by the exchange'
+);
+
+const optionLeg = {
+  type: 'object',
+  properties: {
+    strikePrice: numeric('Strike price'),
+    expiryDate: { type: 'string' },
+    openInterest: numeric('Open interest'),
+    changeinOpenInterest: numeric('Change in open interest'),
+    totalTradedVolume: numeric('Traded volume'),
+    impliedVolatility: numeric('Implied volatility'),
+    lastPrice: numeric('Last traded price'),
+    change: numeric('Price change'),
+    underlyingValue: numeric('Underlying value'),
+  },
+};
+
+export const optionChainOutput = objectOutput({
+  records: {
+    type: 'object',
+    properties: {
+      timestamp: text('Exchange timestamp of the snapshot'),
+      underlyingValue: numeric('Underlying value'),
+      data: {
+        type: 'array',
+        description: 'One row per strike and expiry',
+        items: {
+          type: 'object',
+          properties: {
+            expiryDates: { type: 'string' },
+            strikePrice: numeric('Strike price'),
+            CE: optionLeg,
+            PE: optionLeg,
+          },
+        },
+      },
+    },
+  },
+});
+
+export const compiledOptionChainOutput = objectOutput({
+  expiry: text('Expiry in DD-Mon-YYYY format'),
+  timestamp: text('Exchange timestamp of the snapshot'),
+  underlying: numeric('Underlying value'),
+  atm: numeric('At-the-money strike'),
+  maxpain: numeric('Max pain strike'),
+  maxCoi: numeric('Strike with the highest call OI'),
+  maxPoi: numeric('Strike with the highest put OI'),
+  coiTotal: numeric('Total call OI'),
+  poiTotal: numeric('Total put OI'),
+  pcr: numeric('Put-call ratio'),
+  chain: { type: 'object', description: 'Per-strike CE/PE data keyed by strike' },
+});
+
+export const maxPainOutput = valueOutput({ type: 'number', description: 'Max pain strike price' });
+
+export const fnoLotsOutput: OutputSchema = {
+  ...objectOutput(),
+  description: 'Lot size keyed by symbol',
+  additionalProperties: { type: 'number' },
+};
+
+export const corporateActionsOutput = listOutput(
+  {
+    symbol: text('NSE symbol'),
+    scripcode: text('BSE scrip code'),
+    companyname: text('Company name'),
+    comp: text('Company name'),
+    subject: text('Action, e.g. dividend or bonus'),
+    purpose: text('Action, e.g. dividend or bonus'),
+    exDate: text('Ex-date'),
+    exdate: text('Ex-date'),
+    recDate: text('Record date'),
+    recorddate: text('Record date'),
+  },
+  'Corporate actions'
+);
+
+export const bseQuoteOutput = objectOutput({
+  scripcode: text('BSE scrip code'),
+  companyname: text('Company name'),
+  ltp: numeric('Last traded price'),
+  change: numeric('Change'),
+  pchange: numeric('Percentage change'),
+  volume: numeric('Volume'),
+  high: numeric('Day high'),
+  low: numeric('Day low'),
+  open: numeric('Open'),
+  previousclose: numeric('Previous close'),
+});
+
+export const bseWeeklyHighLowOutput = objectOutput({
+  fifty2WeekHigh: numeric('52-week high'),
+  dateHigh: text('Date of the 52-week high'),
+  fifty2WeekLow: numeric('52-week low'),
+  dateLow: text('Date of the 52-week low'),
+  monthlyHigh: numeric('Monthly high'),
+  monthlyLow: numeric('Monthly low'),
+  weeklyHigh: numeric('Weekly high'),
+  weeklyLow: numeric('Weekly low'),
+});
+
+export const bseMoversOutput = listOutput(
+  {
+    scripcode: text('BSE scrip code'),
+    companyname: text('Company name'),
+    ltp: numeric('Last traded price'),
+    change: numeric('Change'),
+    pchange: numeric('Percentage change'),
+  },
+  'Stocks sorted by percentage change'
+);
+
+export const advanceDeclineOutput = listOutput({
+  advances: numeric('Advancing stocks'),
+  declines: numeric('Declining stocks'),
+  unchanged: numeric('Unchanged stocks'),
+});
+
+export const near52WeekOutput = objectOutput({
+  highs: { type: 'array', description: 'Stocks at 52-week highs' },
+  lows: { type: 'array', description: 'Stocks at 52-week lows' },
+});
+
+// Category names come from the exchange, so they aren't typed. Long results page through the largest category list with offset/cursor.
+export const indexGroupsOutput: OutputSchema = {
+  ...objectOutput(),
+  description: 'Index rows (indexname, currentvalue, change, pchange) keyed by index category',
+};
+
+export const bseAnnouncementsOutput = objectOutput({
+  announcements: { type: 'array', description: 'Announcement rows' },
+  totalCount: numeric('Total announcements matching the query'),
+  pageNo: numeric('Page number'),
+});
+
+export const resultCalendarOutput = listOutput({
+  scripcode: text('BSE scrip code'),
+  companyname: text('Company name'),
+  resultdate: text('Result date'),
+  resulttype: text('Result type'),
+});
+
+export const bseLookupOutput = objectOutput({
+  company_name: text('Company name'),
+  symbol: text('NSE symbol'),
+  isin: text('ISIN'),
+  bse_code: text('BSE scrip code'),
+});
+
+export const bseSecuritiesOutput = listOutput({
+  scripcode: text('BSE scrip code'),
+  companyname: text('Company name'),
+  group: text('Scrip group'),
+  industry: text('Industry'),
+  segment: text('Segment'),
+  status: text('Listing status'),
+});
+
+export const documentOutput = objectOutput({
+  success: { type: 'boolean' },
+  content: text('Extracted text'),
+  files: { type: 'array', items: { type: 'string' }, description: 'Extracted files' },
+  error: text('Failure reason when success is false'),
+  metadata: {
+    type: 'object',
+    properties: {
+      filename: { type: 'string' },
+      size: { type: 'number' },
+      type: { type: 'string' },
+      pages: { type: 'number' },
+      extractedPages: { type: 'string' },
+    },
+  },
+});
+
+export const batchOutput = objectOutput({
+  results: {
+    type: 'array',
+    description: 'One entry per call, in request order',
+    items: {
+      type: 'object',
+      properties: {
+        index: { type: 'number', description: 'Position in the calls array' },
+        tool: text('Tool name'),
+        status: { type: 'string', enum: ['ok', 'error'] },
+        data: { description: 'Tool result, limited to its share of the word budget' },
+        note: text('Present when the result was limited; explains what was cut'),
+        page: { type: 'object', description: 'Pagination footer when one page of the result was returned' },
+        error: text('Failure reason when status is error'),
+        retry_after_seconds: { type: 'number', description: 'When the call was throttled or the exchange is unavailable' },
+      },
+    },
+  },
+  succeeded: { type: 'number' },
+  failed: { type: 'number' },
+});
+
+export const toolSearchOutput = objectOutput({
+  results: {
+    type: 'array',
+    description: 'Matching tools, best match first',
+    items: {
+      type: 'object',
+      properties: {
+        name: text('Tool name, to pass to call_tool'),
+        category: text('Tool category'),
+        description: text('What the tool does'),
+        inputSchema: { type: 'object', description: 'JSON Schema of the tool arguments' },
+      },
+    },
+  },
+  total_matches: { type: 'number', description: 'Matching tools, including those beyond max_results' },
+});
+
+/**
+ * call_tool returns the structured content of whichever tool it ran
+ */
+export const toolResultOutput = objectOutput({
+  items: { type: 'array', description: 'Result rows, when the tool returns a list' },
+  value: { description: 'Result value, when the tool returns a single number or string' },
+});
@@ -0,0 +1,230 @@
+/**
+ * Tool Registry
+ *
+ * Every tool declares its schema, handler, category and response limit
+ * behaviour in a single definition. ListTools and CallTool are both generated
+ * from the registry, so a listed tool can never be missing its handler.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { NSEClient, BSE } from 'nse-bse-api';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { decodeCursor, formatLimitedResponse, LimitOptions } from '../utils/response-limiter.js';
+import { RateLimitError } from '../utils/rate-limiter.js';
+import { UpstreamUnavailableError } from '../upstream/resilience.js';
+import { InvalidArgumentError, validateArguments } from './validation.js';
+import type { OutputSchema } from './output-schemas.js';
+import type { ToolCategory, ToolGroup } from '../config.js';
+import type { ProgressReporter } from '../utils/progress.js';
+import type { CachePolicy, CacheStatus, ResponseCache } from '../cache/response-cache.js';
+
+/**
+ * Shared clients passed to every handler, with the request's cancellation
+ * signal and progress reporter for long-running work
+ */
+export interface ToolContext {
+  nse: NSEClient;
+  bse: BSE;
+  signal: AbortSignal;
+  progress: ProgressReporter;
+  // Caller's credentials, for tools that dispatch other tools
+  authInfo?: AuthInfo;
+}
+
+/**
+ * How the handler result is limited before it is returned:
+ * - 'filters': honour the caller's max_items / fields / summary arguments
+ * - 'default': apply the word budget only
+ * - 'none': the handler applies its own budget
+ * - 'delegate': the handler returns the Invocation of the tool it ran, whose
+ *   limits and cache status apply
+ */
+export type LimitBehaviour = 'filters' | 'default' | 'none' | 'delegate';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  inputSchema: Tool['inputSchema'];
+  // Shape of the structuredContent returned with the text result
+  outputSchema: OutputSchema;
+  category: ToolCategory;
+  limit: LimitBehaviour;
+  // Response cache policy; results are never cached when absent
+  cache?: CachePolicy;
+  handler: (args: Record<string, any>, context: ToolContext) => Promise<any> | any;
+}
+
+/**
+ * Whether a client may use a tool (registered and allowed).
+ * Resources and prompts are only offered when the tools behind them are available.
+ */
+export type ToolAvailability = (toolName: string) => boolean;
+
+// Upstream failures are reported with the exchange name
+const GROUP_ERROR_PREFIX: Partial<Record<ToolGroup, string>> = {
+  nse: 'NSE API Error',
+  bse: 'BSE API Error',
+};
+
+function extractLimitOptions(args: Record<string, any>): LimitOptions {
+  // A cursor carries the offset and page size of the next page
+  const cursor = args.cursor !== undefined ? decodeCursor(args.cursor) : undefined;
+  if (cursor === null) {
+    throw new InvalidArgumentError('cursor', 'is not a next_cursor from a previous response', { ...args, cursor: undefined });
+  }
+  if (args.offset !== undefined && (!Number.isInteger(args.offset) || args.offset < 0)) {
+    throw new InvalidArgumentError('offset', 'must be a whole number of 0 or more', { ...args, offset: 0 });
+  }
+  const listCondition = (args.where ?? []).find((condition: any) => condition.op === 'in' && !Array.isArray(condition.value));
+  if (listCondition) {
+    throw new InvalidArgumentError('where', `"in" needs a list value for field "${listCondition.field}"`, {
+      ...args,
+      where: args.where.map((condition: any) =>
+        condition === listCondition ? { ...condition, value: [listCondition.value] } : condition
+      ),
+    });
+  }
+
+  return {
+    maxItems: args.max_items ?? cursor?.maxItems,
+    fields: args.fields,
+    summary: args.summary,
+    where: args.where,
+    sortBy: args.sort_by,
+    sortOrder: args.sort_order,
+    offset: cursor?.offset ?? args.offset,
+  };
+}
+
+const LIMIT_OPTIONS: Record<Exclude<LimitBehaviour, 'delegate'>, (args: Record<string, any>) => LimitOptions> = {
+  filters: extractLimitOptions,
+  default: () => ({}),
+  none: () => ({ maxWords: Infinity }),
+};
+
+/**
+ * Raw handler result, before response limiting
+ */
+export interface Invocation {
+  result: any;
+  // How the result should be limited for this call
+  limitOptions: LimitOptions;
+  // Present when the tool has a cache policy
+  cache?: CacheStatus;
+}
+
+interface RegisteredTool {
+  group: ToolGroup;
+  definition: ToolDefinition;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, RegisteredTool>();
+
+  constructor(private cache?: ResponseCache) {}
+
+  /**
+   * Register a group of tool definitions.
+   * Throws on duplicate names or definitions without a handler.
+   */
+  register(group: ToolGroup, definitions: ToolDefinition[]): this {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Duplicate tool registration: ${definition.name}`);
+      }
+      if (typeof definition.handler !== 'function') {
+        throw new Error(`Tool ${definition.name} is listed but has no handler`);
+      }
+      this.tools.set(definition.name, { group, definition });
+    }
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name)?.definition;
+  }
+
+  definitions(): ToolDefinition[] {
+    return [...this.tools.values()].map(tool => tool.definition);
+  }
+
+  /**
+   * Tool schemas as advertised by ListTools
+   */
+  list(): Tool[] {
+    return this.definitions().map(({ name, description, inputSchema, outputSchema }) => ({
+      name,
+      description,
+      inputSchema,
+      outputSchema,
+    }));
+  }
+
+  /**
+   * Number of registered tools per group
+   */
+  countByGroup(): Partial<Record<ToolGroup, number>> {
+    const counts: Partial<Record<ToolGroup, number>> = {};
+    for (const { group } of this.tools.values()) {
+      counts[group] = (counts[group] || 0) + 1;
+    }
+    return counts;
+  }
+
+  /**
+   * Validate arguments, run a tool's handler and format the result for MCP.
+   * Invalid arguments throw InvalidArgumentError before the handler runs.
+   */
+  async call(name: string, args: Record<string, any>, context: ToolContext): Promise<any> {
+    const { result, limitOptions, cache } = await this.invoke(name, args, context);
+    const response = formatLimitedResponse(result, limitOptions);
+    return cache ? { ...response, _meta: { cache } } : response;
+  }
+
+  /**
+   * Validate arguments and run a tool's handler, returning the raw result
+   */
+  async invoke(name: string, args: Record<string, any>, context: ToolContext): Promise<Invocation> {
+    const registered = this.tools.get(name);
+    if (!registered) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const { group, definition } = registered;
+    validateArguments(definition.inputSchema, args);
+    const limitOptions = definition.limit === 'delegate' ? undefined : LIMIT_OPTIONS[definition.limit](args);
+
+    let result: any;
+    let cacheStatus: CacheStatus | undefined;
+    try {
+      if (definition.cache && this.cache) {
+        // Limit options only shape the response, so they aren't part of the cache key
+        const { max_items, fields, summary, where, sort_by, sort_order, offset, cursor, ...keyArgs } = args;
+        ({ value: result, status: cacheStatus } = await this.cache.getOrLoad(
+          name,
+          keyArgs,
+          definition.cache,
+          async () => definition.handler(args, context)
+        ));
+      } else {
+        result = await definition.handler(args, context);
+      }
+    } catch (error: any) {
+      const prefix = GROUP_ERROR_PREFIX[group];
+      // Throttled calls and open circuits keep their retry hint
+      if (!prefix || error instanceof RateLimitError || error instanceof UpstreamUnavailableError) {
+        throw error;
+      }
+      throw new Error(`${prefix}: ${error.message}`);
+    }
+
+    if (!limitOptions) {
+      return result as Invocation;
+    }
+    return { result, limitOptions, cache: cacheStatus };
+  }
+}
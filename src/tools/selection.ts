@@ -0,0 +1,60 @@
+/**
+ * Tool Selection
+ *
+ * Deployment-level control over which tools are registered, on top of the
+ * enabled tool groups: categories can be switched off (e.g. options, ipo,
+ * downloads, documents), and individual tools allowed or denied by name or
+ * prefix pattern ("nse_*"). Tools that aren't selected are never registered,
+ * so they are neither listed nor callable over MCP, REST or batch_call.
+ */
+
+import type { AppConfig } from '../config.js';
+import type { ToolDefinition } from './registry.js';
+
+export type ToolSelection = Pick<AppConfig['tools'], 'disabledCategories' | 'allow' | 'deny' | 'shortDescriptions'>;
+
+/**
+ * Match a tool name against an exact name or a prefix pattern ending in '*'
+ */
+export function matchesToolPattern(pattern: string, toolName: string): boolean {
+  return pattern.endsWith('*') ? toolName.startsWith(pattern.slice(0, -1)) : pattern === toolName;
+}
+
+/**
+ * First sentence of a description. Abbreviations such as "e.g." don't end a
+ * sentence because the next word isn't capitalised.
+ */
+export function shortenDescription(description: string): string {
+  const match = /^(.+?[.!?])\s+(?=[A-Z])/s.exec(description);
+  return match ? match[1] : description;
+}
+
+export function isToolSelected(definition: ToolDefinition, selection: ToolSelection): boolean {
+  if (selection.disabledCategories.includes(definition.category)) {
+    return false;
+  }
+  if (selection.deny.some(pattern => matchesToolPattern(pattern, definition.name))) {
+    return false;
+  }
+  return selection.allow.length === 0 || selection.allow.some(pattern => matchesToolPattern(pattern, definition.name));
+}
+
+/**
+ * Selected definitions, with shortened descriptions when configured
+ */
+export function selectTools(definitions: ToolDefinition[], selection: ToolSelection): ToolDefinition[] {
+  return definitions
+    .filter(definition => isToolSelected(definition, selection))
+    .map(definition =>
+      selection.shortDescriptions ? { ...definition, description: shortenDescription(definition.description) } : definition
+    );
+}
+
+/**
+ * Allow and deny patterns that match none of the given tools, usually typos
+ */
+export function unmatchedPatterns(definitions: ToolDefinition[], selection: ToolSelection): string[] {
+  return [...selection.allow, ...selection.deny].filter(
+    pattern => !definitions.some(definition => matchesToolPattern(pattern, definition.name))
+  );
+}
@@ -0,0 +1,184 @@
+/**
+ * Tool Argument Validation
+ *
+ * Every call is checked against the tool's declared inputSchema before it is
+ * dispatched: required fields, JSON types (including declared object
+ * properties), enum values and date formats.
+ * Failures raise InvalidArgumentError naming the bad field, together with a
+ * corrected copy of the arguments the caller can retry with.
+ */
+
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DATE_FORMATS_HELP, EXAMPLE_DATE, tryParseDate } from '../utils/dates.js';
+
+// Argument names that hold dates parsed by parseDate
+const DATE_FIELDS = new Set(['date', 'from_date', 'to_date', 'expiry_date']);
+
+// Option expiries are passed to NSE verbatim, so only DD-Mon-YYYY is accepted
+const EXPIRY_FIELD = 'expiry';
+const EXPIRY_PATTERN = /^\d{2}-(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)-\d{4}$/;
+
+// Sample values used when building a corrected example
+const EXAMPLE_VALUES: Record<string, unknown> = {
+  symbol: 'RELIANCE',
+  scripcode: '500325',
+  scripname: 'RELIANCE',
+  index: 'NIFTY 50',
+  query: 'reliance',
+  text: 'reliance',
+  expiry: '26-Dec-2024',
+  url: 'https://nsearchives.nseindia.com/corporate/example.pdf',
+  where: [{ field: 'pChange', op: 'gt', value: 3 }],
+};
+
+export class InvalidArgumentError extends Error {
+  constructor(
+    public readonly field: string,
+    public readonly detail: string,
+    public readonly example: Record<string, unknown>
+  ) {
+    super(`Invalid argument "${field}": ${detail}`);
+    this.name = 'InvalidArgumentError';
+  }
+}
+
+type JsonSchema = Record<string, any>;
+
+function jsonType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function exampleValue(field: string, schema: JsonSchema | undefined): unknown {
+  if (DATE_FIELDS.has(field)) return EXAMPLE_DATE;
+  if (field in EXAMPLE_VALUES) return EXAMPLE_VALUES[field];
+  if (Array.isArray(schema?.enum) && schema.enum.length > 0) return schema.enum[0];
+
+  switch (schema?.type) {
+    case 'number':
+    case 'integer':
+      return 10;
+    case 'boolean':
+      return true;
+    case 'array':
+      return [exampleValue(field, schema.items)];
+    case 'object':
+      return {};
+    default:
+      return 'value';
+  }
+}
+
+/**
+ * Check a single value against its property schema.
+ * Returns a description of the problem, or null if the value is valid.
+ */
+function checkValue(field: string, value: unknown, schema: JsonSchema): string | null {
+  const actual = jsonType(value);
+
+  switch (schema.type) {
+    case 'string':
+      if (actual !== 'string') return `expected a string, got ${actual}`;
+      break;
+    case 'number':
+      if (actual !== 'number' || !Number.isFinite(value)) return `expected a number, got ${actual}`;
+      break;
+    case 'integer':
+      if (!Number.isInteger(value)) return `expected an integer, got ${actual}`;
+      break;
+    case 'boolean':
+      if (actual !== 'boolean') return `expected true or false, got ${actual}`;
+      break;
+    case 'object':
+      if (actual !== 'object') return `expected an object, got ${actual}`;
+      if (schema.properties) {
+        const object = value as Record<string, unknown>;
+        for (const name of schema.required ?? []) {
+          if (object[name] === undefined || object[name] === null) return `"${name}" is required`;
+        }
+        for (const [name, property] of Object.entries<JsonSchema>(schema.properties)) {
+          if (object[name] === undefined || object[name] === null) continue;
+          const problem = checkValue(name, object[name], property);
+          if (problem) return `"${name}" ${problem}`;
+        }
+      }
+      break;
+    case 'array':
+      if (actual !== 'array') return `expected an array, got ${actual}`;
+      if (schema.items) {
+        for (const [index, item] of (value as unknown[]).entries()) {
+          const problem = checkValue(field, item, schema.items);
+          if (problem) return `item ${index}: ${problem}`;
+        }
+      }
+      break;
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.includes(value)) {
+    return `must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`;
+  }
+
+  if (typeof value === 'string') {
+    if (DATE_FIELDS.has(field) && !tryParseDate(value)) {
+      return `"${value}" is not a valid date (accepted formats: ${DATE_FORMATS_HELP})`;
+    }
+    if (field === EXPIRY_FIELD && !EXPIRY_PATTERN.test(value)) {
+      return `"${value}" is not a valid expiry (expected DD-Mon-YYYY, e.g. "26-Dec-2024")`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate tool arguments against the tool's input schema.
+ * Unknown arguments are passed through untouched.
+ */
+export function validateArguments(inputSchema: Tool['inputSchema'], args: Record<string, any>): void {
+  const properties: Record<string, JsonSchema> = (inputSchema.properties as Record<string, JsonSchema>) || {};
+  const required = inputSchema.required || [];
+
+  const fail = (field: string, detail: string): never => {
+    // Keep the caller's valid arguments and fix up the bad one
+    const example: Record<string, unknown> = {};
+    for (const name of required) {
+      example[name] = name in args && name !== field ? args[name] : exampleValue(name, properties[name]);
+    }
+    for (const [name, value] of Object.entries(args)) {
+      if (name in properties && !(name in example)) {
+        example[name] = name === field ? exampleValue(name, properties[name]) : value;
+      }
+    }
+    if (!(field in example)) {
+      example[field] = exampleValue(field, properties[field]);
+    }
+    throw new InvalidArgumentError(field, detail, example);
+  };
+
+  for (const field of required) {
+    if (args[field] === undefined || args[field] === null || args[field] === '') {
+      fail(field, 'is required');
+    }
+  }
+
+  for (const [field, value] of Object.entries(args)) {
+    const schema = properties[field];
+    if (!schema || value === undefined || value === null) {
+      continue;
+    }
+    const problem = checkValue(field, value, schema);
+    if (problem) {
+      fail(field, problem);
+    }
+  }
+
+  if (typeof args.from_date === 'string' && typeof args.to_date === 'string') {
+    const from = tryParseDate(args.from_date);
+    const to = tryParseDate(args.to_date);
+    if (from && to && from.getTime() > to.getTime()) {
+      const example = { ...args, from_date: args.to_date, to_date: args.from_date };
+      throw new InvalidArgumentError('from_date', `must be on or before to_date (${args.to_date})`, example);
+    }
+  }
+}
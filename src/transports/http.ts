@@ -0,0 +1,233 @@
+/**
+ * Streamable HTTP transport
+ *
+ * Express app serving the MCP endpoint, the REST mirror of the tools (/api/v1)
+ * and health, readiness and metrics endpoints. Runs stateless by
+ * default; set server.stateful (MCP_STATEFUL=true) to issue Mcp-Session-Id and keep a transport
+ * per session (required for notifications and resumable SSE streams).
+ */
+
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import express from 'express';
+import cors from 'cors';
+import {
+  SERVER_NAME,
+  SERVER_VERSION,
+  breakers,
+  bse,
+  createMcpServer,
+  getToolCounts,
+  nse,
+  warnUnmatchedToolPatterns,
+} from '../server.js';
+import { metricsRegistry } from '../utils/metrics.js';
+import { logger } from '../utils/logger.js';
+import { config } from '../config.js';
+import { Probe, ReadinessChecker, directoryWritableProbe } from '../health/readiness.js';
+import { SessionManager } from './sessions.js';
+import { StaticKeyProvider, createAuthMiddleware, loadCredentials } from '../middleware/auth.js';
+import { createRateLimitMiddleware } from '../middleware/rate-limit.js';
+import { createRestRouter } from './rest.js';
+import { REST_BASE_PATH } from './openapi.js';
+
+/**
+ * Send a JSON-RPC error without a request id (transport-level failures)
+ */
+function sendJsonRpcError(res: express.Response, status: number, message: string) {
+  res.status(status).json({
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+export function startHttpServer() {
+  const { stateful, sessionTimeoutSeconds, corsOrigins, port, host } = config.server;
+  const sessions = stateful ? new SessionManager(sessionTimeoutSeconds * 1000) : undefined;
+
+  // Set up Express app
+  const app = express();
+
+  // Configure CORS for browser clients
+  // Credentials are only allowed for an explicit origin list, never with '*'
+  const anyOrigin = corsOrigins.includes('*');
+  app.use(
+    cors({
+      origin: anyOrigin ? '*' : corsOrigins,
+      exposedHeaders: ['Mcp-Session-Id'],
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-API-Key', 'mcp-session-id', 'mcp-protocol-version', 'last-event-id'],
+      credentials: !anyOrigin,
+    })
+  );
+
+  app.use(express.json());
+
+  // Middleware to ensure Accept header compatibility for Streamable HTTP
+  // Some MCP clients (like Gemini CLI) don't send the required Accept headers
+  app.use('/mcp', (req, res, next) => {
+    const accept = req.headers.accept || '';
+    if (!accept.includes('text/event-stream')) {
+      req.headers.accept = 'application/json, text/event-stream';
+    }
+    next();
+  });
+
+  // Liveness endpoint (public) - the process is up and serving requests
+  app.get('/health', (req, res) => {
+    res.json({
+      status: 'ok',
+      server: SERVER_NAME,
+      version: SERVER_VERSION,
+      uptimeSeconds: Math.round(process.uptime()),
+      tools: getToolCounts(),
+      circuitBreakers: {
+        nse: breakers.NSE.snapshot(),
+        bse: breakers.BSE.snapshot(),
+      },
+    });
+  });
+
+  // Readiness endpoint (public) - dependencies are reachable
+  // Only exchanges with enabled tool groups are probed
+  const probes: Record<string, Probe> = {
+    downloads: directoryWritableProbe(config.downloads.directory),
+  };
+  if (config.tools.enabledGroups.includes('nse')) {
+    probes.nse = () => nse.status();
+  }
+  if (config.tools.enabledGroups.includes('bse')) {
+    probes.bse = () => bse.fetchIndexNames();
+  }
+  const readiness = new ReadinessChecker(probes);
+
+  app.get('/ready', async (req, res) => {
+    const checks = await readiness.check();
+    const exchanges = Object.keys(checks).filter(name => name !== 'downloads');
+    const exchangesUp = exchanges.filter(name => checks[name].status === 'up');
+
+    // Not ready if downloads can't be written or no exchange is reachable;
+    // degraded (still serving) if only some exchanges are down
+    let status: 'ready' | 'degraded' | 'not_ready' = 'ready';
+    if (checks.downloads.status === 'down' || (exchanges.length > 0 && exchangesUp.length === 0)) {
+      status = 'not_ready';
+    } else if (exchangesUp.length < exchanges.length) {
+      status = 'degraded';
+    }
+
+    res.status(status === 'not_ready' ? 503 : 200).json({
+      status,
+      server: SERVER_NAME,
+      version: SERVER_VERSION,
+      tools: getToolCounts(),
+      checks,
+    });
+  });
+
+  // Prometheus metrics endpoint (public, like /health)
+  app.get('/metrics', async (req, res) => {
+    res.setHeader('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  });
+
+  // Authentication for the MCP and REST endpoints (enabled when any credentials are configured)
+  const keyProvider = new StaticKeyProvider(loadCredentials());
+  const authEnabled = keyProvider.size > 0;
+  const apiPaths = ['/mcp', REST_BASE_PATH];
+  if (authEnabled) {
+    app.use(apiPaths, createAuthMiddleware([keyProvider]));
+  }
+
+  // Per-client rate limit (requests per minute, keyed by client id or IP), shared by MCP and REST
+  app.use(apiPaths, createRateLimitMiddleware(config.rateLimits.clientPerMinute));
+
+  // REST mirror of the tools for non-MCP consumers
+  app.use(REST_BASE_PATH, createRestRouter(authEnabled));
+
+  if (sessions) {
+    // MCP endpoint using Streamable HTTP (stateful mode - one transport per session)
+    app.post('/mcp', async (req, res) => {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+
+      if (sessionId) {
+        const transport = sessions.get(sessionId);
+        if (!transport) {
+          sendJsonRpcError(res, 404, 'Session not found');
+          return;
+        }
+        await transport.handleRequest(req, res, req.body);
+        return;
+      }
+
+      if (!isInitializeRequest(req.body)) {
+        sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+        return;
+      }
+
+      const transport = await sessions.create();
+      await transport.handleRequest(req, res, req.body);
+    });
+
+    // SSE stream for server-initiated messages (supports Last-Event-ID resumption)
+    // and explicit session termination
+    const handleSessionRequest = async (req: express.Request, res: express.Response) => {
+      const sessionId = req.headers['mcp-session-id'] as string | undefined;
+      if (!sessionId) {
+        sendJsonRpcError(res, 400, 'Bad Request: Mcp-Session-Id header is required');
+        return;
+      }
+
+      const transport = sessions.get(sessionId);
+      if (!transport) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+
+      await transport.handleRequest(req, res);
+    };
+
+    app.get('/mcp', handleSessionRequest);
+    app.delete('/mcp', handleSessionRequest);
+  } else {
+    // MCP endpoint using Streamable HTTP (stateless mode - recommended)
+    app.post('/mcp', async (req, res) => {
+      // Create new transport per request to prevent ID collisions
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: undefined, // Stateless mode
+        enableJsonResponse: true,
+      });
+
+      // Clean up transport when connection closes
+      res.on('close', () => {
+        transport.close();
+      });
+
+      // Create and connect server
+      const server = createMcpServer({ notifications: false });
+      await server.connect(transport);
+
+      // Handle the request
+      await transport.handleRequest(req, res, req.body);
+    });
+  }
+
+  // Start server
+  app.listen(port, host, () => {
+    logger.info('NSE-BSE MCP Server running', {
+      version: SERVER_VERSION,
+      url: `http://${host}:${port}`,
+      mcpEndpoint: `http://${host}:${port}/mcp`,
+      restApi: `http://${host}:${port}${REST_BASE_PATH}/openapi.json`,
+      healthCheck: `http://${host}:${port}/health`,
+      readinessCheck: `http://${host}:${port}/ready`,
+      metrics: `http://${host}:${port}/metrics`,
+      sessionMode: stateful ? 'stateful' : 'stateless',
+      sessionTimeoutSeconds: stateful ? sessionTimeoutSeconds : undefined,
+      tools: getToolCounts(),
+    });
+    warnUnmatchedToolPatterns();
+    if (!authEnabled) {
+      logger.warn('Authentication disabled - set MCP_API_KEYS, MCP_BEARER_TOKENS or MCP_AUTH_KEYS_FILE');
+    }
+  });
+}
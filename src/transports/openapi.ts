@@ -0,0 +1,118 @@
+/**
+ * OpenAPI Document
+ *
+ * OpenAPI 3 description of the REST mirror, generated from the tool registry
+ * so it always matches the registered tools and their input schemas.
+ */
+
+import type { ToolDefinition } from '../tools/registry.js';
+import { filterProperties } from '../tools/common-properties.js';
+
+export const REST_BASE_PATH = '/api/v1';
+
+// Response limiting is for LLMs; REST returns full results
+const LIMIT_ARGUMENTS = new Set(Object.keys(filterProperties));
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { 'application/json': { schema: { $ref: '#/components/schemas/Error' } } },
+});
+
+function restSchema(definition: ToolDefinition): Record<string, any> {
+  const { properties = {}, required = [] } = definition.inputSchema as Record<string, any>;
+  const kept = Object.entries(properties).filter(([name]) => !LIMIT_ARGUMENTS.has(name));
+  return {
+    type: 'object',
+    properties: Object.fromEntries(kept),
+    ...(required.length > 0 ? { required } : {}),
+  };
+}
+
+function queryParameters(schema: Record<string, any>): Record<string, any>[] {
+  return Object.entries<Record<string, any>>(schema.properties).map(([name, property]) => ({
+    name,
+    in: 'query',
+    required: (schema.required ?? []).includes(name),
+    description: property.description,
+    // Arrays may be repeated (?pages=1&pages=2) or comma-separated; objects are JSON
+    ...(property.type === 'object'
+      ? { content: { 'application/json': { schema: property } } }
+      : { schema: property, ...(property.type === 'array' ? { style: 'form', explode: true } : {}) }),
+  }));
+}
+
+function operation(definition: ToolDefinition, method: 'get' | 'post', schema: Record<string, any>) {
+  return {
+    operationId: method === 'get' ? definition.name : `${definition.name}_post`,
+    summary: definition.name,
+    description: definition.description,
+    tags: [definition.category],
+    ...(method === 'get'
+      ? { parameters: queryParameters(schema) }
+      : { requestBody: { required: false, content: { 'application/json': { schema } } } }),
+    responses: {
+      200: {
+        description: 'Raw tool result',
+        headers: {
+          'X-Request-Id': { schema: { type: 'string' }, description: 'Matches the server log entry' },
+          'X-Cache': { schema: { type: 'string', enum: ['hit', 'miss'] }, description: 'Present for cached tools' },
+        },
+        content: { 'application/json': { schema: {} } },
+      },
+      400: errorResponse('Invalid arguments'),
+      // Sent by the authentication middleware shared with /mcp (JSON-RPC error body)
+      401: { description: 'Missing or unknown credentials' },
+      403: errorResponse('Tool not allowed for this client'),
+      404: errorResponse('Unknown or disabled tool'),
+      429: errorResponse('Exchange rate limit reached; see Retry-After. The per-client limit returns a JSON-RPC error body.'),
+      502: errorResponse('Tool or exchange call failed'),
+      503: errorResponse('Exchange temporarily unavailable; see Retry-After'),
+    },
+  };
+}
+
+export function buildOpenApiDocument(
+  definitions: ToolDefinition[],
+  info: { title: string; version: string },
+  authEnabled: boolean
+): Record<string, any> {
+  const paths: Record<string, any> = {};
+  for (const definition of definitions) {
+    const schema = restSchema(definition);
+    paths[`/tools/${definition.name}`] = {
+      get: operation(definition, 'get', schema),
+      post: operation(definition, 'post', schema),
+    };
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      ...info,
+      description: 'REST mirror of the MCP tools. Each tool accepts its arguments as query parameters (GET) or a JSON body (POST) and returns the raw result.',
+    },
+    servers: [{ url: REST_BASE_PATH }],
+    paths,
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', description: 'Error code, e.g. invalid_argument or upstream_unavailable' },
+            message: { type: 'string' },
+            request_id: { type: 'string' },
+            field: { type: 'string', description: 'Invalid argument name' },
+            example: { type: 'object', description: 'Corrected arguments' },
+            retry_after_seconds: { type: 'number' },
+          },
+          required: ['error', 'message'],
+        },
+      },
+      securitySchemes: {
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+        bearer: { type: 'http', scheme: 'bearer' },
+      },
+    },
+    ...(authEnabled ? { security: [{ apiKey: [] }, { bearer: [] }] } : {}),
+  };
+}
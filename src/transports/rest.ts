@@ -0,0 +1,167 @@
+/**
+ * REST API
+ *
+ * JSON mirror of every enabled tool for consumers that don't speak MCP:
+ *
+ *   GET  /api/v1/tools/:name?arg=value   arguments from the query string
+ *   POST /api/v1/tools/:name             arguments from the JSON body
+ *   GET  /api/v1/openapi.json            generated OpenAPI 3 document
+ *
+ * Tools run through the same validation, cache, upstream layers, logs and
+ * metrics as MCP calls, but the raw result is returned as JSON without the
+ * LLM-oriented response limiting and formatting.
+ */
+
+import express from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { SERVER_NAME, SERVER_VERSION, bse, dispatchTool, nse, registry, trackToolCall } from '../server.js';
+import { buildOpenApiDocument } from './openapi.js';
+import { isToolAllowed } from '../middleware/auth.js';
+import { InvalidArgumentError } from '../tools/validation.js';
+import { UpstreamUnavailableError } from '../upstream/resilience.js';
+import { RateLimitError } from '../utils/rate-limiter.js';
+import { noProgress } from '../utils/progress.js';
+
+type AuthenticatedRequest = express.Request & { auth?: AuthInfo };
+
+function sendError(
+  res: express.Response,
+  status: number,
+  error: string,
+  message: string,
+  details: Record<string, unknown> = {}
+) {
+  res.status(status).json({ error, message, ...details });
+}
+
+/**
+ * Convert query string values to the types declared in the tool's input schema.
+ * Arrays may be repeated (?pages=1&pages=2) or comma-separated (?pages=1,2);
+ * objects are passed as JSON. Values that don't convert are left as strings
+ * so validation reports them against the schema.
+ */
+function parseQuery(query: express.Request['query'], properties: Record<string, any>): Record<string, any> {
+  const coerce = (value: string, type: string | undefined): unknown => {
+    if (type === 'number' || type === 'integer') {
+      return value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value;
+    }
+    if (type === 'boolean') {
+      return value === 'true' ? true : value === 'false' ? false : value;
+    }
+    if (type === 'object') {
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    }
+    return value;
+  };
+
+  const args: Record<string, any> = {};
+  for (const [name, raw] of Object.entries(query)) {
+    const values = (Array.isArray(raw) ? raw : [raw]).filter((value): value is string => typeof value === 'string');
+    if (values.length === 0) {
+      continue;
+    }
+
+    const property = properties[name];
+    if (property?.type === 'array') {
+      args[name] = values.flatMap(value => value.split(',')).map(value => coerce(value, property.items?.type));
+    } else {
+      args[name] = coerce(values[values.length - 1], property?.type);
+    }
+  }
+  return args;
+}
+
+export function createRestRouter(authEnabled: boolean): express.Router {
+  const router = express.Router();
+
+  // Built on first request; the registry doesn't change after startup
+  let openApiDocument: Record<string, any> | undefined;
+  router.get('/openapi.json', (req, res) => {
+    openApiDocument ??= buildOpenApiDocument(
+      registry.definitions(),
+      { title: SERVER_NAME, version: SERVER_VERSION },
+      authEnabled
+    );
+    res.json(openApiDocument);
+  });
+
+  const handleTool = async (req: AuthenticatedRequest, res: express.Response) => {
+    const { name } = req.params;
+    const definition = registry.get(name);
+    if (!definition) {
+      sendError(res, 404, 'not_found', `Unknown or disabled tool: ${name}`);
+      return;
+    }
+    if (!isToolAllowed(req.auth, name)) {
+      sendError(res, 403, 'forbidden', `Tool not allowed for client "${req.auth?.clientId}": ${name}`);
+      return;
+    }
+
+    const args =
+      req.method === 'GET'
+        ? parseQuery(req.query, (definition.inputSchema as Record<string, any>).properties ?? {})
+        : (req.body ?? {});
+    if (typeof args !== 'object' || Array.isArray(args)) {
+      sendError(res, 400, 'invalid_argument', 'Request body must be a JSON object of tool arguments');
+      return;
+    }
+
+    // Stop work the client is no longer waiting for
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) {
+        controller.abort();
+      }
+    });
+
+    const call = await trackToolCall(name, args, req.auth, controller.signal, () =>
+      dispatchTool(name, args, {
+        nse,
+        bse,
+        signal: controller.signal,
+        progress: noProgress,
+        authInfo: req.auth,
+      })
+    );
+    if (controller.signal.aborted) {
+      return;
+    }
+
+    res.setHeader('X-Request-Id', call.requestId);
+    if (call.ok) {
+      const { result, cache } = call.value;
+      if (cache) {
+        res.setHeader('X-Cache', cache.hit ? 'hit' : 'miss');
+      }
+      res.json(result ?? null);
+      return;
+    }
+
+    const error: any = call.error;
+    const requestId = { request_id: call.requestId };
+    if (error instanceof InvalidArgumentError) {
+      sendError(res, 400, 'invalid_argument', error.message, { field: error.field, example: error.example, ...requestId });
+    } else if (error instanceof RateLimitError) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      sendError(res, 429, 'rate_limited', error.message, { retry_after_seconds: error.retryAfterSeconds, ...requestId });
+    } else if (error instanceof UpstreamUnavailableError) {
+      res.setHeader('Retry-After', String(error.retryAfterSeconds));
+      sendError(res, 503, 'upstream_unavailable', error.message, {
+        exchange: error.exchange,
+        retry_after_seconds: error.retryAfterSeconds,
+        ...requestId,
+      });
+    } else {
+      sendError(res, 502, 'tool_error', error?.message ?? String(error), requestId);
+    }
+  };
+
+  router.get('/tools/:name', handleTool);
+  router.post('/tools/:name', handleTool);
+
+  return router;
+}
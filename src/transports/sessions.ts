@@ -0,0 +1,97 @@
+/**
+ * Session Manager
+ *
+ * Tracks stateful Streamable HTTP sessions: one transport and server per
+ * Mcp-Session-Id, with idle sessions expired on a timer.
+ */
+
+import { randomUUID } from 'crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { MemoryEventStore } from '../utils/event-store.js';
+import { createMcpServer } from '../server.js';
+import { logger } from '../utils/logger.js';
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  lastActivity: number;
+}
+
+export class SessionManager {
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private idleTimeoutMs: number) {
+    // Check for idle sessions at a fraction of the timeout
+    const sweepInterval = Math.max(1000, Math.min(60000, Math.floor(idleTimeoutMs / 4)));
+    this.sweepTimer = setInterval(() => this.expireIdleSessions(), sweepInterval);
+    this.sweepTimer.unref();
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Look up a session and mark it as active
+   */
+  get(sessionId: string): StreamableHTTPServerTransport | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    session.lastActivity = Date.now();
+    return session.transport;
+  }
+
+  /**
+   * Create a transport for a new session.
+   * The session is registered once the transport issues its id during initialize.
+   */
+  async create(): Promise<StreamableHTTPServerTransport> {
+    const server = createMcpServer();
+    const transport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      eventStore: new MemoryEventStore(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, server, lastActivity: Date.now() });
+        logger.info('Session started', { sessionId, activeSessions: this.sessions.size });
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        logger.info('Session closed', { sessionId, activeSessions: this.sessions.size });
+      }
+    };
+
+    await server.connect(transport);
+    return transport;
+  }
+
+  /**
+   * Close sessions that have been idle longer than the timeout
+   */
+  private expireIdleSessions() {
+    const cutoff = Date.now() - this.idleTimeoutMs;
+    for (const [sessionId, session] of this.sessions) {
+      if (session.lastActivity < cutoff) {
+        logger.info('Session expired', { sessionId });
+        this.sessions.delete(sessionId);
+        session.server.close().catch(() => {});
+      }
+    }
+  }
+
+  /**
+   * Close all sessions (used on shutdown)
+   */
+  async closeAll() {
+    clearInterval(this.sweepTimer);
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map(session => session.server.close().catch(() => {})));
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * stdio transport
+ *
+ * Connects a single MCP server to stdin/stdout so desktop clients can spawn
+ * the server directly instead of going through mcp-remote.
+ */
+
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createMcpServer, closeClients, warnUnmatchedToolPatterns } from '../server.js';
+import { logger, useStderrForLogs } from '../utils/logger.js';
+
+/**
+ * Route console output to stderr.
+ * stdout carries the JSON-RPC stream, so any stray log line (including from
+ * dependencies) would corrupt it.
+ */
+function redirectConsoleToStderr() {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
+export async function startStdioServer() {
+  redirectConsoleToStderr();
+  useStderrForLogs();
+  warnUnmatchedToolPatterns();
+
+  const server = createMcpServer();
+  const transport = new StdioServerTransport();
+
+  // Clean up when the client closes the stream
+  transport.onclose = () => {
+    closeClients();
+  };
+
+  await server.connect(transport);
+  logger.info('NSE-BSE MCP Server running on stdio');
+}
@@ -0,0 +1,68 @@
+/**
+ * Upstream Client Wrapper
+ *
+ * Wraps the NSE/BSE clients in a proxy so every network call passes through a
+ * chain of layers (rate limiting and similar cross-cutting concerns) without
+ * touching the tool handlers.
+ */
+
+import { stableStringify } from '../utils/logger.js';
+
+export type Exchange = 'NSE' | 'BSE';
+
+export interface UpstreamCall {
+  exchange: Exchange;
+  method: string;
+  args: any[];
+}
+
+/**
+ * Identifies a call by exchange, method and arguments. Trailing undefined
+ * arguments are dropped and the rest go through JSON, so Dates compare by
+ * value; object keys are sorted.
+ */
+export function callKey({ exchange, method, args }: UpstreamCall): string {
+  let length = args.length;
+  while (length > 0 && args[length - 1] === undefined) {
+    length--;
+  }
+  const normalised = JSON.parse(JSON.stringify(args.slice(0, length)));
+  return `${exchange}.${method}(${stableStringify(normalised)})`;
+}
+
+/**
+ * A layer receives the call and a `next` function invoking the rest of the chain
+ */
+export type UpstreamLayer = (call: UpstreamCall, next: () => Promise<any>) => Promise<any>;
+
+// Client methods that compute locally or manage lifecycle - never intercepted.
+// NSE gainers/losers sort data already fetched; the BSE ones are HTTP calls.
+const LOCAL_METHODS: Record<Exchange, Set<string>> = {
+  NSE: new Set(['gainers', 'losers', 'exit', 'constructor']),
+  BSE: new Set(['close', 'constructor']),
+};
+
+export function wrapClient<T extends object>(
+  client: T,
+  exchange: Exchange,
+  layers: UpstreamLayer[]
+): T {
+  const localMethods = LOCAL_METHODS[exchange];
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string' || localMethods.has(property)) {
+        return value;
+      }
+
+      return (...args: any[]) => {
+        const call: UpstreamCall = { exchange, method: property, args };
+        const invoke = (index: number): Promise<any> =>
+          index < layers.length
+            ? layers[index](call, () => invoke(index + 1))
+            : Promise.resolve(value.apply(target, args));
+        return invoke(0);
+      };
+    },
+  });
+}
@@ -0,0 +1,34 @@
+/**
+ * Upstream coalescing layer
+ *
+ * Concurrent identical calls (same exchange, method and normalised arguments)
+ * share one in-flight request instead of each reaching the exchange. The
+ * entry is dropped as soon as the call settles, so this never serves stale
+ * data; caching is the response cache's job.
+ *
+ * Placed first in the chain, so callers also share retries, one rate limit
+ * token and one breaker decision. Callers receive the same result object and
+ * must not mutate it.
+ */
+
+import { upstreamCoalesced } from '../utils/metrics.js';
+import { callKey, UpstreamLayer } from './client-wrapper.js';
+
+export function coalesceLayer(): UpstreamLayer {
+  const inFlight = new Map<string, Promise<any>>();
+
+  return (call, next) => {
+    const key = callKey(call);
+    const pending = inFlight.get(key);
+    if (pending) {
+      upstreamCoalesced.inc({ exchange: call.exchange });
+      return pending;
+    }
+
+    const request = next().finally(() => {
+      inFlight.delete(key);
+    });
+    inFlight.set(key, request);
+    return request;
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * Upstream metrics layer
+ *
+ * Counts requests and failures per exchange. Placed after the rate limit
+ * layer so only calls that actually reach the exchange are counted.
+ */
+
+import { upstreamErrors, upstreamRequests } from '../utils/metrics.js';
+import type { UpstreamLayer } from './client-wrapper.js';
+
+export const metricsLayer: UpstreamLayer = async (call, next) => {
+  upstreamRequests.inc({ exchange: call.exchange });
+  try {
+    return await next();
+  } catch (error) {
+    upstreamErrors.inc({ exchange: call.exchange });
+    throw error;
+  }
+};
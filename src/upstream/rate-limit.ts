@@ -0,0 +1,22 @@
+/**
+ * Upstream rate limit layer
+ *
+ * Global token bucket per exchange so the total request rate to NSE and BSE
+ * stays under the configured ceiling, regardless of how many clients are
+ * connected. Calls over budget fail fast with a RateLimitError.
+ */
+
+import { RateLimitError, TokenBucket } from '../utils/rate-limiter.js';
+import type { UpstreamLayer } from './client-wrapper.js';
+
+export function rateLimitLayer(requestsPerMinute: number): UpstreamLayer {
+  const bucket = TokenBucket.perMinute(requestsPerMinute);
+
+  return async (call, next) => {
+    const retryAfter = bucket.take();
+    if (retryAfter > 0) {
+      throw new RateLimitError(`${call.exchange} upstream`, retryAfter);
+    }
+    return next();
+  };
+}
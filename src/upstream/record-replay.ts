@@ -0,0 +1,99 @@
+/**
+ * Upstream record/replay layer
+ *
+ * Record mode passes calls through to the exchange and saves each result (or
+ * error) as a JSON fixture. Replay mode serves calls from those fixtures and
+ * never touches the network, so the whole server can run offline against
+ * recorded data.
+ *
+ * Fixtures live at <directory>/<exchange>/<method>/<hash>.json, where the
+ * hash is taken from the normalised call key. Each file keeps the method and
+ * arguments in readable form, so fixtures can be reviewed and edited by hand.
+ * Methods that download files record the returned path only; the file itself
+ * is not part of the fixture.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import type { UpstreamCall, UpstreamLayer } from './client-wrapper.js';
+import { callKey } from './client-wrapper.js';
+import { logger } from '../utils/logger.js';
+
+interface Fixture {
+  key: string;
+  exchange: string;
+  method: string;
+  args: unknown[];
+  recordedAt: string;
+  result?: unknown;
+  error?: { name: string; message: string };
+}
+
+export class FixtureNotFoundError extends Error {
+  constructor(public readonly key: string, public readonly file: string) {
+    super(`No recorded fixture for ${key} (expected ${file}). Record it with UPSTREAM_MODE=record.`);
+    this.name = 'FixtureNotFoundError';
+  }
+}
+
+function fixturePath(directory: string, call: UpstreamCall, key: string): string {
+  const hash = createHash('sha256').update(key).digest('hex').slice(0, 16);
+  return path.join(directory, call.exchange, call.method, `${hash}.json`);
+}
+
+function writeFixture(file: string, fixture: Fixture) {
+  try {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+  } catch (error) {
+    logger.warn('Could not write fixture', { file, error });
+  }
+}
+
+export function recordLayer(directory: string): UpstreamLayer {
+  return async (call, next) => {
+    const key = callKey(call);
+    const file = fixturePath(directory, call, key);
+    const fixture: Fixture = {
+      key,
+      exchange: call.exchange,
+      method: call.method,
+      args: JSON.parse(JSON.stringify(call.args)),
+      recordedAt: new Date().toISOString(),
+    };
+
+    try {
+      const result = await next();
+      writeFixture(file, { ...fixture, result });
+      return result;
+    } catch (error: any) {
+      writeFixture(file, { ...fixture, error: { name: error?.name ?? 'Error', message: error?.message ?? String(error) } });
+      throw error;
+    }
+  };
+}
+
+export function replayLayer(directory: string): UpstreamLayer {
+  return async call => {
+    const key = callKey(call);
+    const file = fixturePath(directory, call, key);
+
+    let fixture: Fixture;
+    try {
+      fixture = JSON.parse(await fs.promises.readFile(file, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') {
+        throw new FixtureNotFoundError(key, file);
+      }
+      throw new Error(`Cannot read fixture ${file}: ${error.message}`);
+    }
+
+    if (fixture.error) {
+      const error = new Error(fixture.error.message);
+      error.name = fixture.error.name;
+      throw error;
+    }
+    return fixture.result;
+  };
+}
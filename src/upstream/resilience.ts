@@ -0,0 +1,218 @@
+/**
+ * Upstream resilience layer
+ *
+ * Retries transient exchange failures with exponential backoff and full
+ * jitter, and trips a per-exchange circuit breaker after repeated failures so
+ * calls fail fast while the exchange is struggling instead of hammering it.
+ *
+ * Breaker states:
+ * - closed: calls pass through; consecutive failures are counted
+ * - open: calls fail immediately with UpstreamUnavailableError until the
+ *   cooldown ends
+ * - half-open: one trial call is let through; success closes the breaker,
+ *   failure opens it again
+ *
+ * Only transient failures (network errors, timeouts, 401/403 session
+ * hiccups, 429 and 5xx) are retried or counted against the breaker. Bad
+ * requests and missing reports prove the exchange is answering.
+ */
+
+import { RateLimitError } from '../utils/rate-limiter.js';
+import { upstreamRetries } from '../utils/metrics.js';
+import { logger } from '../utils/logger.js';
+import type { Exchange, UpstreamLayer } from './client-wrapper.js';
+
+const RETRYABLE_STATUS = new Set([401, 403, 408, 429, 500, 502, 503, 504]);
+const RETRYABLE_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+]);
+const RETRYABLE_NAMES = new Set(['TimeoutError', 'ConnectionError', 'RequestError']);
+const MAX_RETRY_DELAY_MS = 5000;
+
+export class UpstreamUnavailableError extends Error {
+  constructor(
+    public readonly exchange: Exchange,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(`${exchange} temporarily unavailable, retry after ${retryAfterSeconds} s`);
+    this.name = 'UpstreamUnavailableError';
+  }
+}
+
+/**
+ * Whether a failure is transient and worth retrying.
+ * NSE reports HTTP errors as "<url> <status>: <text>", BSE as "<status>: <text>".
+ */
+export function isRetryable(error: any): boolean {
+  if (error instanceof RateLimitError || error instanceof UpstreamUnavailableError) {
+    return false;
+  }
+
+  const status = error?.response?.status ?? error?.response?.statusCode;
+  const messageStatus = /(?:^|\s)(\d{3}): /.exec(String(error?.message ?? ''))?.[1];
+  const httpStatus = Number(status ?? messageStatus);
+  if (httpStatus) {
+    return RETRYABLE_STATUS.has(httpStatus);
+  }
+
+  return RETRYABLE_CODES.has(error?.code) || RETRYABLE_NAMES.has(error?.name);
+}
+
+export type BreakerState = 'closed' | 'open' | 'half-open';
+
+export interface BreakerOptions {
+  failureThreshold: number;
+  cooldownMs: number;
+}
+
+export interface BreakerSnapshot {
+  state: BreakerState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAfterSeconds: number;
+}
+
+export class CircuitBreaker {
+  private state: BreakerState = 'closed';
+  private failures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(
+    private exchange: Exchange,
+    private options: BreakerOptions
+  ) {}
+
+  /**
+   * Throws UpstreamUnavailableError if the call must not go through.
+   * Returns true when the call is the half-open trial.
+   */
+  admit(): boolean {
+    if (this.state === 'open') {
+      if (Date.now() - this.openedAt < this.options.cooldownMs) {
+        throw new UpstreamUnavailableError(this.exchange, this.retryAfterSeconds());
+      }
+      this.state = 'half-open';
+    }
+
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) {
+        throw new UpstreamUnavailableError(this.exchange, 1);
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  succeeded(trial: boolean): void {
+    if (trial) {
+      this.trialInFlight = false;
+    }
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed', { exchange: this.exchange });
+    }
+    this.state = 'closed';
+    this.failures = 0;
+  }
+
+  failed(trial: boolean): void {
+    if (trial) {
+      this.trialInFlight = false;
+    }
+    this.failures++;
+    if (this.state === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.warn('Circuit breaker opened', {
+        exchange: this.exchange,
+        consecutiveFailures: this.failures,
+        cooldownSeconds: Math.ceil(this.options.cooldownMs / 1000),
+      });
+    }
+  }
+
+  /**
+   * The call never reached the exchange, so it says nothing about its health
+   */
+  released(trial: boolean): void {
+    if (trial) {
+      this.trialInFlight = false;
+    }
+  }
+
+  private retryAfterSeconds(): number {
+    return Math.max(1, Math.ceil((this.openedAt + this.options.cooldownMs - Date.now()) / 1000));
+  }
+
+  snapshot(): BreakerSnapshot {
+    const open = this.state === 'open';
+    return {
+      state: this.state,
+      consecutiveFailures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAfterSeconds: open ? this.retryAfterSeconds() : 0,
+    };
+  }
+}
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+}
+
+function backoff(attempt: number, baseDelayMs: number): number {
+  return Math.random() * Math.min(MAX_RETRY_DELAY_MS, baseDelayMs * 2 ** attempt);
+}
+
+/**
+ * Place before the rate limit layer so every attempt takes a token and an
+ * open breaker doesn't spend any.
+ */
+export function resilienceLayer(breaker: CircuitBreaker, { retries, baseDelayMs }: RetryOptions): UpstreamLayer {
+  return async (call, next) => {
+    const trial = breaker.admit();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const result = await next();
+        breaker.succeeded(trial);
+        return result;
+      } catch (error) {
+        if (!isRetryable(error)) {
+          // A bad request or missing report still means the exchange is answering
+          if (error instanceof RateLimitError) {
+            breaker.released(trial);
+          } else {
+            breaker.succeeded(trial);
+          }
+          throw error;
+        }
+        // A half-open trial gets one attempt so a dead exchange isn't retried
+        if (trial || attempt >= retries) {
+          breaker.failed(trial);
+          throw error;
+        }
+
+        const delayMs = backoff(attempt, baseDelayMs);
+        upstreamRetries.inc({ exchange: call.exchange });
+        logger.debug('Retrying upstream call', {
+          exchange: call.exchange,
+          method: call.method,
+          attempt: attempt + 1,
+          delayMs: Math.round(delayMs),
+          error,
+        });
+        await new Promise(resolve => setTimeout(resolve, delayMs));
+      }
+    }
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Date helpers for tool arguments
+ *
+ * Accepted formats:
+ * - ISO: YYYY-MM-DD (optionally with a time, e.g. 2024-12-31T09:15:00Z)
+ * - DD-MM-YYYY: 31-12-2024
+ * - DD-Mon-YYYY: 31-Dec-2024 (the format NSE uses for expiries)
+ *
+ * Date-only values are interpreted as midnight UTC, matching how
+ * `new Date('YYYY-MM-DD')` behaves.
+ */
+
+export const DATE_FORMATS_HELP = 'YYYY-MM-DD, DD-MM-YYYY or DD-Mon-YYYY';
+
+export const EXAMPLE_DATE = '2024-12-31';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ISO_DATE = /^(\d{4})-(\d{2})-(\d{2})$/;
+const ISO_DATE_TIME = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})?$/;
+const DAY_MONTH_YEAR = /^(\d{2})-(\d{2})-(\d{4})$/;
+const DAY_MON_YEAR = /^(\d{1,2})-([A-Za-z]{3})-(\d{4})$/;
+
+/**
+ * Build a UTC date, rejecting overflow like 31-02-2024
+ */
+function utcDate(year: number, month: number, day: number): Date | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Parse a date string in any accepted format.
+ * Returns null if the value is not a valid date.
+ */
+export function tryParseDate(value: string): Date | null {
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(ISO_DATE))) {
+    return utcDate(Number(match[1]), Number(match[2]), Number(match[3]));
+  }
+  if (ISO_DATE_TIME.test(text)) {
+    const date = new Date(text);
+    return Number.isNaN(date.getTime()) ? null : date;
+  }
+  if ((match = text.match(DAY_MONTH_YEAR))) {
+    return utcDate(Number(match[3]), Number(match[2]), Number(match[1]));
+  }
+  if ((match = text.match(DAY_MON_YEAR))) {
+    const month = MONTHS.indexOf(match[2].toLowerCase());
+    return month === -1 ? null : utcDate(Number(match[3]), month + 1, Number(match[1]));
+  }
+  return null;
+}
+
+export function parseDate(dateStr: string): Date {
+  const date = tryParseDate(String(dateStr));
+  if (!date) {
+    throw new Error(`Invalid date "${dateStr}". Accepted formats: ${DATE_FORMATS_HELP}`);
+  }
+  return date;
+}
+
+export function parseOptionalDate(dateStr: string | undefined): Date | undefined {
+  return dateStr ? parseDate(dateStr) : undefined;
+}
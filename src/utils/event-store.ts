@@ -0,0 +1,63 @@
+/**
+ * In-memory Event Store
+ *
+ * Keeps recent SSE events per stream so clients can resume a dropped stream
+ * by sending Last-Event-ID. One store is created per session and discarded
+ * with it, so memory is bounded by the number of live sessions.
+ */
+
+import { randomUUID } from 'crypto';
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const DEFAULT_MAX_EVENTS_PER_STREAM = 200;
+
+interface StoredEvent {
+  eventId: EventId;
+  message: JSONRPCMessage;
+}
+
+export class MemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, StoredEvent[]>();
+  private eventStreams = new Map<EventId, StreamId>();
+
+  constructor(private maxEventsPerStream = DEFAULT_MAX_EVENTS_PER_STREAM) {}
+
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    const eventId = `${streamId}_${randomUUID()}`;
+    let events = this.streams.get(streamId);
+    if (!events) {
+      events = [];
+      this.streams.set(streamId, events);
+    }
+
+    events.push({ eventId, message });
+    this.eventStreams.set(eventId, streamId);
+
+    // Drop the oldest events once the stream buffer is full
+    while (events.length > this.maxEventsPerStream) {
+      const dropped = events.shift()!;
+      this.eventStreams.delete(dropped.eventId);
+    }
+
+    return eventId;
+  }
+
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.eventStreams.get(lastEventId);
+    if (!streamId) {
+      return '';
+    }
+
+    const events = this.streams.get(streamId) || [];
+    const index = events.findIndex(event => event.eventId === lastEventId);
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Structured Logger
+ *
+ * Emits one JSON object per line. Fields from the active log context (request
+ * id, tool name) are attached automatically, so nested handler logs can be
+ * correlated with the tool call that produced them.
+ *
+ * Level is set with logging.level / LOG_LEVEL (debug, info, warn, error; default: info).
+ * Output goes to stdout, or stderr in stdio mode.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
+import { config, STDIO_TRANSPORT } from '../config.js';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const contextStorage = new AsyncLocalStorage<LogFields>();
+
+let minLevel: LogLevel = config.logging.level;
+// Chosen at load so logs written while modules initialise never reach the stdio protocol stream
+let destination: NodeJS.WritableStream = STDIO_TRANSPORT ? process.stderr : process.stdout;
+
+export function setLogLevel(level: LogLevel) {
+  minLevel = level;
+}
+
+/**
+ * Send logs to stderr (stdout carries the protocol stream in stdio mode)
+ */
+export function useStderrForLogs() {
+  destination = process.stderr;
+}
+
+/**
+ * Run a function with fields attached to every log line it produces
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Short stable digest of tool arguments, so calls can be grouped without
+ * logging argument values
+ */
+export function digestArgs(args: unknown): string {
+  return createHash('sha256').update(stableStringify(args)).digest('hex').slice(0, 12);
+}
+
+/**
+ * JSON with object keys sorted, so equal arguments always give the same string
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value).sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'undefined';
+}
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[minLevel]) {
+    return;
+  }
+
+  const { error, ...rest } = fields;
+  const entry: LogFields = {
+    time: new Date().toISOString(),
+    level,
+    msg: message,
+    ...contextStorage.getStore(),
+    ...rest,
+  };
+
+  if (error instanceof Error) {
+    entry.error = error.message;
+    entry.errorStack = error.stack;
+  } else if (error !== undefined) {
+    entry.error = String(error);
+  }
+
+  destination.write(JSON.stringify(entry) + '\n');
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
@@ -0,0 +1,83 @@
+/**
+ * Prometheus Metrics
+ *
+ * Single registry shared by the server, upstream clients, response limiter and
+ * document handler. Exposed over HTTP at /metrics.
+ */
+
+import { Counter, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+export const metricsRegistry = new Registry();
+
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const toolCalls = new Counter({
+  name: 'mcp_tool_calls_total',
+  help: 'Tool calls by tool name',
+  labelNames: ['tool'] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolErrors = new Counter({
+  name: 'mcp_tool_errors_total',
+  help: 'Tool calls that returned an error result, by tool name',
+  labelNames: ['tool'] as const,
+  registers: [metricsRegistry],
+});
+
+export const toolDuration = new Histogram({
+  name: 'mcp_tool_duration_seconds',
+  help: 'Tool call latency by tool name',
+  labelNames: ['tool'] as const,
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+  registers: [metricsRegistry],
+});
+
+export const upstreamRequests = new Counter({
+  name: 'upstream_requests_total',
+  help: 'Requests made to the exchange APIs',
+  labelNames: ['exchange'] as const,
+  registers: [metricsRegistry],
+});
+
+export const upstreamErrors = new Counter({
+  name: 'upstream_errors_total',
+  help: 'Failed requests to the exchange APIs',
+  labelNames: ['exchange'] as const,
+  registers: [metricsRegistry],
+});
+
+export const responseTruncations = new Counter({
+  name: 'response_limiter_truncations_total',
+  help: 'Oversized responses handled by the response limiter, by mode (metadata, summary, paged, text)',
+  labelNames: ['mode'] as const,
+  registers: [metricsRegistry],
+});
+
+export const documentCache = new Counter({
+  name: 'document_cache_requests_total',
+  help: 'Document downloads served from the local cache (hit) or fetched (miss)',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const responseCache = new Counter({
+  name: 'response_cache_requests_total',
+  help: 'Cacheable tool calls served from the response cache (hit) or the exchange (miss), by tool name',
+  labelNames: ['tool', 'result'] as const,
+  registers: [metricsRegistry],
+});
+
+export const upstreamRetries = new Counter({
+  name: 'upstream_retries_total',
+  help: 'Upstream calls retried after a transient failure',
+  labelNames: ['exchange'] as const,
+  registers: [metricsRegistry],
+});
+
+export const upstreamCoalesced = new Counter({
+  name: 'upstream_coalesced_total',
+  help: 'Upstream calls that joined an identical call already in flight',
+  labelNames: ['exchange'] as const,
+  registers: [metricsRegistry],
+});
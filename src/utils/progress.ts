@@ -0,0 +1,57 @@
+/**
+ * Progress Reporting
+ *
+ * Long-running work reports progress as a fraction (0-1) with a message.
+ * When the client sent a progress token, fractions are forwarded as MCP
+ * progress notifications on a 0-100 scale. Multi-step work (download, then
+ * parse) maps each step onto its own slice of the scale with progressStage.
+ */
+
+import type { ProgressNotification, ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+
+export type ProgressReporter = (fraction: number, message?: string) => void;
+
+// Minimum gap between notifications, so per-chunk updates don't flood the client
+const MIN_INTERVAL_MS = 250;
+
+export const noProgress: ProgressReporter = () => {};
+
+/**
+ * Reporter that sends notifications/progress for the given token.
+ * Progress only ever increases, as the MCP spec requires.
+ */
+export function createProgressReporter(
+  progressToken: ProgressToken | undefined,
+  send: (notification: ProgressNotification) => Promise<void>
+): ProgressReporter {
+  if (progressToken === undefined) {
+    return noProgress;
+  }
+
+  let lastProgress = 0;
+  let lastSentAt = 0;
+
+  return (fraction, message) => {
+    const progress = Math.round(Math.min(Math.max(fraction, 0), 1) * 1000) / 10;
+    const now = Date.now();
+    if (progress <= lastProgress || (progress < 100 && now - lastSentAt < MIN_INTERVAL_MS)) {
+      return;
+    }
+
+    lastProgress = progress;
+    lastSentAt = now;
+    send({
+      method: 'notifications/progress',
+      params: { progressToken, progress, total: 100, message },
+    }).catch(() => {
+      // The client may have gone away; progress is best effort
+    });
+  };
+}
+
+/**
+ * Map a step's 0-1 progress onto the [start, end] slice of the parent reporter
+ */
+export function progressStage(reporter: ProgressReporter, start: number, end: number): ProgressReporter {
+  return (fraction, message) => reporter(start + (end - start) * fraction, message);
+}
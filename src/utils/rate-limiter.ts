@@ -0,0 +1,97 @@
+/**
+ * Rate Limiter Utility
+ *
+ * Token buckets used both per client at the HTTP layer and globally in front
+ * of the NSE/BSE clients. Buckets refill continuously; a request takes one
+ * token or is rejected with the time until a token is available.
+ */
+
+export class RateLimitError extends Error {
+  constructor(
+    public readonly scope: string,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(`Rate limit exceeded for ${scope}. Retry after ${retryAfterSeconds}s.`);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(
+    private capacity: number,
+    private refillPerSecond: number
+  ) {
+    this.tokens = capacity;
+  }
+
+  /**
+   * Build a bucket from a per-minute rate, allowing bursts of ~10 seconds worth
+   */
+  static perMinute(requestsPerMinute: number): TokenBucket {
+    return new TokenBucket(Math.max(1, Math.ceil(requestsPerMinute / 6)), requestsPerMinute / 60);
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSeconds = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsedSeconds * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Take one token.
+   * Returns 0 when allowed, otherwise the seconds to wait before retrying.
+   */
+  take(): number {
+    this.refill();
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.max(1, Math.ceil((1 - this.tokens) / this.refillPerSecond));
+  }
+
+  /**
+   * Whether the bucket has fully refilled (safe to discard)
+   */
+  isFull(): boolean {
+    this.refill();
+    return this.tokens >= this.capacity;
+  }
+}
+
+/**
+ * One token bucket per key (API key / client id / IP)
+ */
+export class KeyedRateLimiter {
+  private buckets = new Map<string, TokenBucket>();
+  private sweepTimer: NodeJS.Timeout;
+
+  constructor(private requestsPerMinute: number) {
+    // Drop buckets that have refilled completely - they carry no state
+    this.sweepTimer = setInterval(() => {
+      for (const [key, bucket] of this.buckets) {
+        if (bucket.isFull()) {
+          this.buckets.delete(key);
+        }
+      }
+    }, 60000);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Take one token for a key.
+   * Returns 0 when allowed, otherwise the seconds to wait before retrying.
+   */
+  take(key: string): number {
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = TokenBucket.perMinute(this.requestsPerMinute);
+      this.buckets.set(key, bucket);
+    }
+    return bucket.take();
+  }
+}
@@ -1,21 +1,88 @@
+import { responseTruncations } from './metrics.js';
+import { config } from '../config.js';
+import { InvalidArgumentError } from '../tools/validation.js';
+
 /**
  * Response Limiter Utility
  * 
  * Limits response data to prevent overwhelming the LLM with too much information.
- * Maximum: 3500 words per response
+ * Maximum: responses.maxWords per response (default: 3500 words)
  * 
  * When data exceeds limit, returns metadata to help LLM make informed decisions
  * about what filters to apply.
+ *
+ * With filters or offset/cursor, returns one page of the largest array (or
+ * flat map) in the result, with a footer holding next_cursor, total_items and
+ * has_more so the rest can be fetched page by page.
  */
 
-const MAX_WORDS = 3500;
-const CHARS_PER_WORD = 5; // Average characters per word
-const MAX_CHARS = MAX_WORDS * CHARS_PER_WORD; // ~17,500 characters
+const MAX_WORDS = config.responses.maxWords;
+
+export const FILTER_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'contains', 'in'] as const;
+export type FilterOperator = (typeof FILTER_OPERATORS)[number];
+
+/**
+ * Condition on one field of each item; nested fields use dots, e.g. "CE.openInterest"
+ */
+export interface FilterCondition {
+  field: string;
+  op: FilterOperator;
+  value: unknown;
+}
 
 export interface LimitOptions {
   maxItems?: number;
   fields?: string[];
   summary?: boolean;
+  // Keep only items matching every condition, then sort, before anything is cut
+  where?: FilterCondition[];
+  sortBy?: string;
+  sortOrder?: 'asc' | 'desc';
+  // First item of the page; set when the caller pages with offset or cursor
+  offset?: number;
+  // Word budget for this response (default: responses.maxWords)
+  maxWords?: number;
+}
+
+/**
+ * Pagination footer for a response that returns one page of a large collection
+ */
+export interface PageInfo {
+  // Location of the paged array in the result, e.g. "records.data"; absent when the result itself is paged
+  path?: string;
+  offset: number;
+  returned: number;
+  total_items: number;
+  has_more: boolean;
+  // Pass as `cursor` to get the next page
+  next_cursor?: string;
+}
+
+interface Cursor {
+  offset: number;
+  maxItems?: number;
+}
+
+/**
+ * Opaque cursor for the next page, keeping the caller's page size
+ */
+export function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify({ o: cursor.offset, n: cursor.maxItems })).toString('base64url');
+}
+
+/**
+ * Decode a cursor from a previous response; null if it isn't one
+ */
+export function decodeCursor(text: string): Cursor | null {
+  try {
+    const { o, n } = JSON.parse(Buffer.from(text, 'base64url').toString('utf-8'));
+    if (!Number.isInteger(o) || o < 0 || (n !== undefined && (!Number.isInteger(n) || n < 1))) {
+      return null;
+    }
+    return { offset: o, maxItems: n };
+  } catch {
+    return null;
+  }
 }
 
 export interface ResponseMetadata {
@@ -35,7 +102,7 @@ export interface ResponseMetadata {
 /**
  * Count words in text
  */
-function countWords(text: string): number {
+export function countWords(text: string): number {
   return text.trim().split(/\s+/).length;
 }
 
@@ -53,8 +120,80 @@ function truncateToWords(text: string, maxWords: number): string {
   return `${truncated}\n\n[... ${remaining} more words truncated. Use filters to get specific data.]`;
 }
 
+function fieldValue(item: any, field: string): unknown {
+  return field.split('.').reduce((node, key) => (node === null || node === undefined ? undefined : node[key]), item);
+}
+
+// Exchanges report many numbers as strings, sometimes with thousands separators
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value.replace(/,/g, ''));
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Numeric comparison when both values are numbers, otherwise case-insensitive text
+ */
+function compareValues(a: unknown, b: unknown): number {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== undefined && y !== undefined) {
+    return x - y;
+  }
+  return String(a).localeCompare(String(b), undefined, { sensitivity: 'base' });
+}
+
+function matchesCondition(item: any, { field, op, value }: FilterCondition): boolean {
+  const actual = fieldValue(item, field);
+  if (actual === null || actual === undefined) {
+    return op === 'ne';
+  }
+
+  switch (op) {
+    case 'eq':
+      return compareValues(actual, value) === 0;
+    case 'ne':
+      return compareValues(actual, value) !== 0;
+    case 'gt':
+      return compareValues(actual, value) > 0;
+    case 'gte':
+      return compareValues(actual, value) >= 0;
+    case 'lt':
+      return compareValues(actual, value) < 0;
+    case 'lte':
+      return compareValues(actual, value) <= 0;
+    case 'contains':
+      return Array.isArray(actual)
+        ? actual.some(element => compareValues(element, value) === 0)
+        : String(actual).toLowerCase().includes(String(value).toLowerCase());
+    case 'in':
+      return Array.isArray(value) && value.some(option => compareValues(actual, option) === 0);
+  }
+}
+
+function sortItems(items: any[], sortBy: string, sortOrder: 'asc' | 'desc' = 'asc'): any[] {
+  const direction = sortOrder === 'desc' ? -1 : 1;
+  return [...items].sort((a, b) => {
+    const x = fieldValue(a, sortBy);
+    const y = fieldValue(b, sortBy);
+    // Items without the field go last in either order
+    const xMissing = x === null || x === undefined;
+    const yMissing = y === null || y === undefined;
+    if (xMissing || yMissing) {
+      return Number(xMissing) - Number(yMissing);
+    }
+    return direction * compareValues(x, y);
+  });
+}
+
 /**
- * Limit array data by selecting specific fields and limiting items
+ * Limit array data: keep items matching `where`, sort, then limit items and
+ * select fields
  */
 export function limitArrayData(
   data: any[],
@@ -66,6 +205,14 @@ export function limitArrayData(
 
   let result = data;
 
+  if (options.where && options.where.length > 0) {
+    const conditions = options.where;
+    result = result.filter(item => conditions.every(condition => matchesCondition(item, condition)));
+  }
+  if (options.sortBy) {
+    result = sortItems(result, options.sortBy, options.sortOrder);
+  }
+
   // Apply item limit
   if (options.maxItems && options.maxItems > 0) {
     result = result.slice(0, options.maxItems);
@@ -139,8 +286,8 @@ function getAvailableFields(data: any): string[] | undefined {
 /**
  * Create metadata about the response
  */
-export function createResponseMetadata(data: any, wordCount: number): ResponseMetadata {
-  const exceedsLimit = wordCount > MAX_WORDS;
+export function createResponseMetadata(data: any, wordCount: number, maxWords = MAX_WORDS): ResponseMetadata {
+  const exceedsLimit = wordCount > maxWords;
   const totalItems = Array.isArray(data) ? data.length : undefined;
   const availableFields = getAvailableFields(data);
   const schema = extractSchema(data);
@@ -166,7 +313,7 @@ export function createResponseMetadata(data: any, wordCount: number): ResponseMe
     // Calculate how many items would fit
     const sampleStr = JSON.stringify(data.slice(0, 3), null, 2);
     const wordsPerItem = countWords(sampleStr) / 3;
-    const maxItems = Math.floor(MAX_WORDS / wordsPerItem);
+    const maxItems = Math.floor(maxWords / wordsPerItem);
     
     // Suggest most important fields (first 5-7 fields)
     const suggestedFields = availableFields?.slice(0, 7);
@@ -205,6 +352,227 @@ export function createArraySummary(data: any[]): string {
   return `Total items: ${data.length}\nAvailable fields: ${fields}\n\nFirst 3 items:\n${JSON.stringify(data.slice(0, 3), null, 2)}`;
 }
 
+// How deep to look inside objects for the array to page
+const MAX_COLLECTION_DEPTH = 3;
+// Words reserved for the pagination footer
+const PAGE_FOOTER_WORDS = 40;
+
+/**
+ * The part of a result that is paged: an array (the result itself or nested,
+ * e.g. option chain records.data), or the entries of a flat map such as
+ * F&O lot sizes keyed by symbol
+ */
+interface Collection {
+  path: string[];
+  kind: 'array' | 'entries';
+  size: number;
+}
+
+/**
+ * Find the largest collection in the result
+ */
+function findCollection(data: any): Collection | undefined {
+  if (Array.isArray(data)) {
+    return { path: [], kind: 'array', size: data.length };
+  }
+  if (typeof data !== 'object' || data === null) {
+    return undefined;
+  }
+
+  const values = Object.values(data);
+  let best: Collection | undefined = values.every(value => typeof value !== 'object' || value === null)
+    ? { path: [], kind: 'entries', size: values.length }
+    : undefined;
+
+  const visit = (node: Record<string, any>, path: string[], depth: number) => {
+    for (const [key, value] of Object.entries(node)) {
+      if (Array.isArray(value)) {
+        if (value.length > (best?.size ?? 0)) {
+          best = { path: [...path, key], kind: 'array', size: value.length };
+        }
+      } else if (typeof value === 'object' && value !== null && depth < MAX_COLLECTION_DEPTH) {
+        visit(value, [...path, key], depth + 1);
+      }
+    }
+  };
+  visit(data, [], 1);
+
+  return best;
+}
+
+/**
+ * Copy of data with the value at path replaced
+ */
+function replaceAt(data: any, path: string[], value: any): any {
+  if (path.length === 0) {
+    return value;
+  }
+  const [key, ...rest] = path;
+  return { ...data, [key]: replaceAt(data[key], rest, value) };
+}
+
+/**
+ * Result with the collection cut down to items [start, start + count)
+ */
+function sliceCollection(data: any, collection: Collection, start: number, count: number, fields?: string[]): any {
+  if (collection.kind === 'entries') {
+    return Object.fromEntries(Object.entries(data).slice(start, start + count));
+  }
+  const items: any[] = collection.path.reduce((node, key) => node[key], data);
+  return replaceAt(data, collection.path, limitArrayData(items.slice(start, start + count), { fields }));
+}
+
+/**
+ * One page of the collection that fits the word budget. The page size is the
+ * caller's max_items when given, otherwise estimated from the items at the
+ * offset; it shrinks until the page fits.
+ */
+function pageCollection(
+  data: any,
+  collection: Collection,
+  options: LimitOptions,
+  maxWords: number
+): { data: any; page: PageInfo; fits: boolean } {
+  const start = Math.min(options.offset ?? 0, collection.size);
+  const remaining = collection.size - start;
+
+  let count = remaining;
+  if (options.maxItems && options.maxItems > 0) {
+    count = Math.min(count, options.maxItems);
+  } else if (remaining > 0) {
+    const sampleSize = Math.min(3, remaining);
+    const overhead = countWords(JSON.stringify(sliceCollection(data, collection, start, 0), null, 2));
+    const sampleWords = countWords(JSON.stringify(sliceCollection(data, collection, start, sampleSize, options.fields), null, 2));
+    const wordsPerItem = Math.max(1, (sampleWords - overhead) / sampleSize);
+    count = Math.min(remaining, Math.max(1, Math.floor((maxWords - overhead - PAGE_FOOTER_WORDS) / wordsPerItem)));
+  }
+
+  let pageData = sliceCollection(data, collection, start, count, options.fields);
+  let words = countWords(JSON.stringify(pageData, null, 2));
+  while (words + PAGE_FOOTER_WORDS > maxWords && count > 1) {
+    count = Math.max(1, Math.min(count - 1, Math.floor((count * (maxWords - PAGE_FOOTER_WORDS)) / words)));
+    pageData = sliceCollection(data, collection, start, count, options.fields);
+    words = countWords(JSON.stringify(pageData, null, 2));
+  }
+  const returned = Math.min(count, remaining);
+  const hasMore = start + returned < collection.size;
+  return {
+    data: pageData,
+    // False when a single item is over budget
+    fits: words + PAGE_FOOTER_WORDS <= maxWords,
+    page: {
+      ...(collection.path.length > 0 ? { path: collection.path.join('.') } : {}),
+      offset: start,
+      returned,
+      total_items: collection.size,
+      has_more: hasMore,
+      ...(hasMore ? { next_cursor: encodeCursor({ offset: start + returned, maxItems: options.maxItems }) } : {}),
+    },
+  };
+}
+
+function pageMessage(page: PageInfo, fields?: string[]): string {
+  const location = page.path ? ` in ${page.path}` : '';
+  let message =
+    page.returned > 0
+      ? `Showing items ${page.offset + 1}-${page.offset + page.returned} of ${page.total_items}${location}. `
+      : `No items at offset ${page.offset}${location} (${page.total_items} in total). `;
+  if (fields) {
+    message += `Fields: ${fields.join(', ')}. `;
+  }
+  message += page.has_more
+    ? 'Pass next_cursor as cursor, with the same other arguments, for the next page.'
+    : 'This is the last page.';
+  return message;
+}
+
+/**
+ * Field names across all items, with dotted paths into nested objects (e.g.
+ * "CE.openInterest"). Items can differ, as option chain rows with only one leg do.
+ */
+function itemFieldPaths(items: any[]): string[] {
+  const paths = new Set<string>();
+  const collect = (node: any, prefix: string) => {
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix + key;
+      paths.add(path);
+      if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+        collect(value, `${path}.`);
+      }
+    }
+  };
+  for (const item of items) {
+    if (typeof item === 'object' && item !== null && !Array.isArray(item)) {
+      collect(item, '');
+    }
+  }
+  return [...paths];
+}
+
+/**
+ * Check where and sort_by field names against the fields found in the items
+ */
+function checkQueryFields(items: any[], options: LimitOptions): void {
+  const available = itemFieldPaths(items);
+  if (available.length === 0) {
+    // Plain values have no fields to filter or sort on; an empty list has nothing to check
+    if (items.length > 0) {
+      throw new InvalidArgumentError(
+        options.where && options.where.length > 0 ? 'where' : 'sort_by',
+        `where and sort_by only apply to lists of objects, and this list holds plain values (e.g. ${JSON.stringify(items[0])}); call the tool again without them`,
+        { max_items: options.maxItems }
+      );
+    }
+    return;
+  }
+  const known = (field: string) => available.includes(field);
+  const detail = (field: string) => `field "${field}" is not in the results (available fields: ${available.join(', ')})`;
+  // Closest field for the corrected example, e.g. "pchange" -> "pChange"
+  const suggest = (field: string) => available.find(name => name.toLowerCase() === field.toLowerCase()) ?? available[0];
+
+  const unknown = options.where?.find(condition => !known(condition.field));
+  if (unknown) {
+    throw new InvalidArgumentError('where', detail(unknown.field), {
+      where: options.where!.map(condition => (condition === unknown ? { ...condition, field: suggest(condition.field) } : condition)),
+    });
+  }
+  if (options.sortBy && !known(options.sortBy)) {
+    throw new InvalidArgumentError('sort_by', detail(options.sortBy), {
+      sort_by: suggest(options.sortBy),
+      sort_order: options.sortOrder ?? 'asc',
+    });
+  }
+}
+
+/**
+ * Apply where and sort_by to the list in the result (the largest array, as for
+ * paging), so limiting and paging work on the matching items only
+ */
+function applyQuery(data: any, options: LimitOptions): any {
+  const field = options.where && options.where.length > 0 ? 'where' : options.sortBy ? 'sort_by' : undefined;
+  if (!field) {
+    return data;
+  }
+
+  const collection = findCollection(data);
+  if (!collection || collection.kind !== 'array') {
+    // The other limiting arguments still apply, so the example keeps them
+    throw new InvalidArgumentError(
+      field,
+      'where and sort_by only apply to results that contain a list of items, and this result is a single record; call the tool again without them',
+      { max_items: options.maxItems, fields: options.fields, summary: options.summary }
+    );
+  }
+
+  const items: any[] = collection.path.reduce((node, key) => node[key], data);
+  checkQueryFields(items, options);
+  return replaceAt(
+    data,
+    collection.path,
+    limitArrayData(items, { where: options.where, sortBy: options.sortBy, sortOrder: options.sortOrder })
+  );
+}
+
 /**
  * Main function to limit response data
  * Returns metadata when data is too large, allowing LLM to make informed decisions
@@ -212,35 +580,41 @@ export function createArraySummary(data: any[]): string {
 export function limitResponse(
   data: any,
   options: LimitOptions = {}
-): { data: any; truncated: boolean; message?: string; metadata?: ResponseMetadata } {
+): { data: any; truncated: boolean; message?: string; metadata?: ResponseMetadata; page?: PageInfo } {
   // Handle null/undefined
   if (data === null || data === undefined) {
     return { data, truncated: false };
   }
 
+  data = applyQuery(data, options);
+  const maxWords = options.maxWords ?? MAX_WORDS;
+  const paging = options.offset !== undefined;
+
   // Convert to JSON string to check size
   let jsonStr = JSON.stringify(data, null, 2);
   const wordCount = countWords(jsonStr);
 
-  // If within limit, return as-is
-  if (wordCount <= MAX_WORDS) {
+  // If within limit, return as-is (unless the caller asked for a page)
+  if (wordCount <= maxWords && !paging) {
     return { data, truncated: false };
   }
 
   // Data is too large - check if filters are applied
-  const hasFilters = options.maxItems || options.fields || options.summary;
+  const hasFilters =
+    options.maxItems || options.fields || options.summary || options.where?.length || options.sortBy || paging;
 
   // If no filters applied, return metadata to help LLM decide
   if (!hasFilters) {
-    const metadata = createResponseMetadata(data, wordCount);
+    const metadata = createResponseMetadata(data, wordCount, maxWords);
+    responseTruncations.inc({ mode: 'metadata' });
     
     return {
       data: {
         _metadata: metadata,
         _message: `Response is too large (${wordCount} words, ~${metadata.estimatedTokens} tokens). Please apply filters to get specific data.`,
         _instructions: metadata.recommendedFilters 
-          ? `Recommended: Use max_items=${metadata.recommendedFilters.maxItems} or fields=${JSON.stringify(metadata.recommendedFilters.suggestedFields)}`
-          : 'Use max_items, fields, or summary parameters to filter the response.',
+          ? `Recommended: Use max_items=${metadata.recommendedFilters.maxItems} or fields=${JSON.stringify(metadata.recommendedFilters.suggestedFields)}, and offset to page through the items`
+          : 'Use max_items, offset, fields, or summary parameters to filter the response.',
       },
       truncated: true,
       message: `Response too large. Returning metadata. Total: ${metadata.totalItems || 'N/A'} items, ${wordCount} words.`,
@@ -248,74 +622,68 @@ export function limitResponse(
     };
   }
 
-  // Filters are applied - proceed with limiting
-  let limitedData = data;
-  let message = '';
-
-  // Strategy 1: If it's an array, limit items and/or fields
-  if (Array.isArray(data)) {
-    if (options.summary) {
-      return {
-        data: createArraySummary(data),
-        truncated: true,
-        message: `Response too large (${wordCount} words). Showing summary. Use maxItems and fields filters to get specific data.`
-      };
-    }
-
-    // Calculate how many items we can fit
-    const sampleSize = Math.min(3, data.length);
-    const sampleStr = JSON.stringify(data.slice(0, sampleSize), null, 2);
-    const wordsPerItem = countWords(sampleStr) / sampleSize;
-    const maxItems = Math.floor(MAX_WORDS / wordsPerItem);
-
-    limitedData = limitArrayData(data, {
-      maxItems: options.maxItems || maxItems,
-      fields: options.fields
-    });
-
-    message = `Response limited: Showing ${limitedData.length} of ${data.length} items. `;
-    if (options.fields) {
-      message += `Fields: ${options.fields.join(', ')}. `;
-    }
-    message += `Use maxItems and fields parameters to customize.`;
-  }
-  // Strategy 2: If it's an object with array properties, limit those
-  else if (typeof data === 'object') {
-    limitedData = { ...data };
-    const arrayKeys: string[] = [];
-
-    for (const key in limitedData) {
-      if (Array.isArray(limitedData[key]) && limitedData[key].length > 10) {
-        arrayKeys.push(key);
-        const originalLength = limitedData[key].length;
-        limitedData[key] = limitedData[key].slice(0, 10);
-        limitedData[`${key}_truncated`] = `Showing 10 of ${originalLength} items`;
-      }
-    }
-
-    if (arrayKeys.length > 0) {
-      message = `Large arrays truncated: ${arrayKeys.join(', ')}. Use specific queries to get complete data.`;
-    }
+  if (Array.isArray(data) && options.summary && !paging) {
+    responseTruncations.inc({ mode: 'summary' });
+    return {
+      data: createArraySummary(data),
+      truncated: true,
+      message: `Response too large (${wordCount} words). Showing summary. Use maxItems and fields filters to get specific data.`
+    };
   }
 
-  // Final check: if still too large, truncate the JSON string
-  jsonStr = JSON.stringify(limitedData, null, 2);
-  if (countWords(jsonStr) > MAX_WORDS) {
-    jsonStr = truncateToWords(jsonStr, MAX_WORDS);
+  // Return one page of the largest array (or map), with a cursor for the next
+  const collection = findCollection(data);
+  const paged = collection ? pageCollection(data, collection, options, maxWords) : undefined;
+  if (paged?.fits) {
+    responseTruncations.inc({ mode: 'paged' });
     return {
-      data: jsonStr,
+      data: paged.data,
       truncated: true,
-      message: message || `Response truncated to ${MAX_WORDS} words. Use filters to get specific data.`
+      message: pageMessage(paged.page, options.fields),
+      page: paged.page,
     };
   }
+  if (!paged && wordCount <= maxWords) {
+    return { data, truncated: false };
+  }
 
+  // Still too large (a single item is over budget): truncate the JSON string
+  jsonStr = truncateToWords(JSON.stringify(paged ? paged.data : data, null, 2), maxWords);
+  responseTruncations.inc({ mode: 'text' });
   return {
-    data: limitedData,
+    data: jsonStr,
     truncated: true,
-    message: message || 'Response limited to prevent data overflow'
+    message: `Response truncated to ${maxWords} words. Use filters to get specific data.`
   };
 }
 
+/**
+ * Structured form of a limited response.
+ * Arrays become { items }, scalars { value }; limiting notes use _-prefixed keys.
+ */
+export function toStructuredContent(
+  limited: ReturnType<typeof limitResponse>
+): Record<string, unknown> {
+  const { data, truncated, message, page } = limited;
+  const note = { ...(truncated && message ? { _message: message } : {}), ...(page ? { _page: page } : {}) };
+
+  // Summaries and word-truncated JSON are text, not data
+  if (truncated && typeof data === 'string') {
+    return { ...note, _text: data };
+  }
+  if (data === null || data === undefined) {
+    return {};
+  }
+  if (Array.isArray(data)) {
+    return { items: data, ...note };
+  }
+  if (typeof data === 'object') {
+    // Metadata responses already carry their own _message
+    return limited.metadata ? data : { ...data, ...note };
+  }
+  return { value: data };
+}
+
 /**
  * Format limited response for MCP
  */
@@ -353,6 +721,22 @@ export function formatLimitedResponse(result: any, options: LimitOptions = {}):
     text = `⚠️ ${limited.message}\n\n${text}`;
   }
 
+  // Pagination footer
+  if (limited.page) {
+    const page = limited.page;
+    let pageText = '\n\n📄 PAGINATION:\n';
+    pageText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+    if (page.path) pageText += `path: ${page.path}\n`;
+    pageText += `offset: ${page.offset}\n`;
+    pageText += `returned: ${page.returned}\n`;
+    pageText += `total_items: ${page.total_items}\n`;
+    pageText += `has_more: ${page.has_more}\n`;
+    if (page.next_cursor) pageText += `next_cursor: ${page.next_cursor}\n`;
+    pageText += `━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
+
+    text += pageText;
+  }
+
   return {
     content: [
       {
@@ -360,5 +744,6 @@ export function formatLimitedResponse(result: any, options: LimitOptions = {}):
         text,
       },
     ],
+    structuredContent: toStructuredContent(limited),
   };
 }
@@ -0,0 +1,52 @@
+/**
+ * Upstream client wrapper: which client methods pass through the upstream layers
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { wrapClient } from '../dist/upstream/client-wrapper.js';
+
+function recordingLayer(calls) {
+  return (call, next) => {
+    calls.push(`${call.exchange}.${call.method}`);
+    return next();
+  };
+}
+
+test('BSE gainers and losers go through the upstream layers', async () => {
+  const calls = [];
+  const bse = wrapClient(
+    {
+      gainers: async () => [{ scripCode: '500325' }],
+      losers: async () => [],
+      close: () => {},
+    },
+    'BSE',
+    [recordingLayer(calls)]
+  );
+
+  assert.deepEqual(await bse.gainers({ index: 'S&P BSE SENSEX' }), [{ scripCode: '500325' }]);
+  await bse.losers();
+  bse.close();
+  assert.deepEqual(calls, ['BSE.gainers', 'BSE.losers']);
+});
+
+test('NSE gainers and losers work on local data and skip the upstream layers', async () => {
+  const calls = [];
+  const nse = wrapClient(
+    {
+      gainers: data => data.slice(0, 1),
+      losers: data => data.slice(-1),
+      equityQuote: async symbol => ({ symbol }),
+      exit: () => {},
+    },
+    'NSE',
+    [recordingLayer(calls)]
+  );
+
+  assert.deepEqual(nse.gainers([1, 2, 3]), [1]);
+  assert.deepEqual(nse.losers([1, 2, 3]), [3]);
+  nse.exit();
+  assert.deepEqual(await nse.equityQuote('TCS'), { symbol: 'TCS' });
+  assert.deepEqual(calls, ['NSE.equityQuote']);
+});
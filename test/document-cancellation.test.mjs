@@ -0,0 +1,56 @@
+/**
+ * Cancelling a document download rejects the tool call instead of resolving
+ * to an ordinary { success: false } result
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+
+const downloads = fs.mkdtempSync(path.join(os.tmpdir(), 'nse-bse-mcp-test-'));
+process.env.DOWNLOAD_DIR = downloads;
+process.env.LOG_LEVEL = 'error';
+const { downloadAndExtract, readDocumentPages } = await import('../dist/handlers/document-handler.js');
+
+// Sends the start of a document and then stalls until the client goes away
+const server = http.createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'application/pdf' });
+  res.write('%PDF-1.4\n');
+});
+let baseUrl;
+
+before(async () => {
+  await new Promise(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${server.address().port}`;
+});
+
+after(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+  fs.rmSync(downloads, { recursive: true, force: true, maxRetries: 5 });
+});
+
+function abortSoon() {
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 50);
+  return controller.signal;
+}
+
+test('download_document rejects when cancelled mid-download', async () => {
+  await assert.rejects(
+    downloadAndExtract(`${baseUrl}/prospectus.pdf`, 5, undefined, { signal: abortSoon() }),
+    { name: 'AbortError' }
+  );
+});
+
+test('read_document_pages rejects when cancelled mid-download', async () => {
+  await assert.rejects(
+    readDocumentPages(undefined, `${baseUrl}/annual-report.pdf`, { startPage: 1, endPage: 2 }, 5, { signal: abortSoon() }),
+    { name: 'AbortError' }
+  );
+  // Partial downloads are removed so they're never served from the cache
+  assert.equal(fs.readdirSync(downloads, { recursive: true }).some(name => name.endsWith('annual-report.pdf')), false);
+});
@@ -0,0 +1,76 @@
+/**
+ * Replay smoke test
+ *
+ * Starts the built server over stdio with UPSTREAM_MODE=replay, so tool calls
+ * are served from the fixtures in test/fixtures without network access.
+ */
+
+import { after, before, test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { setTimeout as sleep } from 'timers/promises';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+const downloads = fs.mkdtempSync(path.join(os.tmpdir(), 'nse-bse-mcp-test-'));
+
+const client = new Client({ name: 'replay-test', version: '1.0.0' });
+let serverPid;
+
+// The server saves its session cookies in the download directory on shutdown
+async function waitForExit(pid, timeoutMs = 5000) {
+  for (const deadline = Date.now() + timeoutMs; Date.now() < deadline; await sleep(20)) {
+    try {
+      process.kill(pid, 0);
+    } catch {
+      return;
+    }
+  }
+}
+
+before(async () => {
+  const transport = new StdioClientTransport({
+    command: process.execPath,
+    args: [path.join(root, 'dist/index.js'), '--stdio'],
+    env: {
+      ...process.env,
+      UPSTREAM_MODE: 'replay',
+      UPSTREAM_FIXTURES_DIR: path.join(root, 'test/fixtures'),
+      DOWNLOAD_DIR: downloads,
+      LOG_LEVEL: 'error',
+    },
+    stderr: 'ignore',
+  });
+  await client.connect(transport);
+  serverPid = transport.pid;
+});
+
+after(async () => {
+  await client.close();
+  if (serverPid) {
+    await waitForExit(serverPid);
+  }
+  fs.rmSync(downloads, { recursive: true, force: true, maxRetries: 5 });
+});
+
+test('lists the tools', async () => {
+  const { tools } = await client.listTools();
+  assert.ok(tools.some(tool => tool.name === 'nse_equity_quote'));
+});
+
+test('serves a tool call from a recorded fixture', async () => {
+  const result = await client.callTool({ name: 'nse_equity_quote', arguments: { symbol: 'TCS' } });
+  assert.notEqual(result.isError, true);
+  assert.equal(result.structuredContent.close, 3069.4);
+  assert.equal(result.structuredContent.volume, 2418733);
+});
+
+test('names the missing fixture for an unrecorded call', async () => {
+  const result = await client.callTool({ name: 'nse_equity_quote', arguments: { symbol: 'INFY' } });
+  assert.equal(result.isError, true);
+  assert.match(result.content[0].text, /No recorded fixture for NSE\.equityQuote\(\["INFY"\]\)/);
+});